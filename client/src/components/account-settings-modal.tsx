@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, Trash2 } from "lucide-react";
+import { queryClient, apiRequest, invalidateTradeQueries } from "@/lib/queryClient";
+import { readFileAsText } from "@/lib/utils";
+import type { AccountSettings, FxRate, FxRateImportResult } from "@shared/schema";
+
+interface AccountSettingsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Only the most recent rates are listed; the full table can run to thousands of rows
+const VISIBLE_RATES = 50;
+
+export default function AccountSettingsModal({ open, onOpenChange }: AccountSettingsModalProps) {
+  const [baseCurrency, setBaseCurrency] = useState("");
+  const [startingBalance, setStartingBalance] = useState("");
+  const [maxDailyLoss, setMaxDailyLoss] = useState("");
+  const [maxTradesPerDay, setMaxTradesPerDay] = useState("");
+  const [maxConsecutiveLosses, setMaxConsecutiveLosses] = useState("");
+  const [dailyLimitMode, setDailyLimitMode] = useState("block");
+  const [file, setFile] = useState<File | null>(null);
+  const [importResult, setImportResult] = useState<FxRateImportResult | null>(null);
+
+  const { data: settings } = useQuery<AccountSettings>({
+    queryKey: ["/api/account-settings"],
+  });
+
+  const { data: rates = [] } = useQuery<FxRate[]>({
+    queryKey: ["/api/fx-rates"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setBaseCurrency(settings.baseCurrency);
+    setStartingBalance(settings.startingBalance || "");
+    setMaxDailyLoss(settings.maxDailyLoss || "");
+    setMaxTradesPerDay(settings.maxTradesPerDay?.toString() || "");
+    setMaxConsecutiveLosses(settings.maxConsecutiveLosses?.toString() || "");
+    setDailyLimitMode(settings.dailyLimitMode);
+  }, [settings?.baseCurrency, settings?.startingBalance, settings?.maxDailyLoss, settings?.maxTradesPerDay, settings?.maxConsecutiveLosses, settings?.dailyLimitMode]);
+
+  const isDirty = !!settings && (
+    baseCurrency.trim().toUpperCase() !== settings.baseCurrency ||
+    startingBalance.trim() !== (settings.startingBalance || "") ||
+    maxDailyLoss.trim() !== (settings.maxDailyLoss || "") ||
+    maxTradesPerDay.trim() !== (settings.maxTradesPerDay?.toString() || "") ||
+    maxConsecutiveLosses.trim() !== (settings.maxConsecutiveLosses?.toString() || "") ||
+    dailyLimitMode !== settings.dailyLimitMode
+  );
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", "/api/account-settings", {
+        baseCurrency: baseCurrency.trim().toUpperCase(),
+        startingBalance: startingBalance.trim() || null,
+        maxDailyLoss: maxDailyLoss.trim() || null,
+        maxTradesPerDay: maxTradesPerDay.trim() ? parseInt(maxTradesPerDay) : null,
+        maxConsecutiveLosses: maxConsecutiveLosses.trim() ? parseInt(maxConsecutiveLosses) : null,
+        dailyLimitMode,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account-settings"] });
+      // Analytics are reported in base currency
+      invalidateTradeQueries();
+    },
+  });
+
+  const importRatesMutation = useMutation({
+    mutationFn: async (ratesFile: File) => {
+      const content = await readFileAsText(ratesFile);
+      const res = await apiRequest("POST", "/api/fx-rates/import", { content });
+      return res.json() as Promise<FxRateImportResult>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fx-rates"] });
+      invalidateTradeQueries();
+      setImportResult(data);
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/fx-rates/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fx-rates"] });
+      invalidateTradeQueries();
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFile(null);
+      setImportResult(null);
+      saveSettingsMutation.reset();
+      importRatesMutation.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  const errorMessage = saveSettingsMutation.error?.message || importRatesMutation.error?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Account Settings</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="base-currency">Base currency</Label>
+                <Input
+                  id="base-currency"
+                  className="w-32 uppercase"
+                  maxLength={3}
+                  value={baseCurrency}
+                  onChange={(e) => setBaseCurrency(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="starting-balance">Starting balance</Label>
+                <Input
+                  id="starting-balance"
+                  className="w-40"
+                  placeholder="Optional"
+                  value={startingBalance}
+                  onChange={(e) => setStartingBalance(e.target.value)}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={saveSettingsMutation.isPending || !isDirty}
+                onClick={() => saveSettingsMutation.mutate()}
+              >
+                Save
+              </Button>
+            </div>
+            <p className="text-xs text-slate-500">
+              Trade P&L is converted into the base currency at the trade date's rate before any statistics are calculated.
+              The equity curve starts from the starting balance.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="max-daily-loss">Max daily loss</Label>
+                <Input
+                  id="max-daily-loss"
+                  placeholder="No limit"
+                  value={maxDailyLoss}
+                  onChange={(e) => setMaxDailyLoss(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-trades">Max trades per day</Label>
+                <Input
+                  id="max-trades"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxTradesPerDay}
+                  onChange={(e) => setMaxTradesPerDay(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max-losses">Max losses in a row</Label>
+                <Input
+                  id="max-losses"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={maxConsecutiveLosses}
+                  onChange={(e) => setMaxConsecutiveLosses(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>When reached</Label>
+                <Select value={dailyLimitMode} onValueChange={setDailyLimitMode}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Lock the day</SelectItem>
+                    <SelectItem value="warn">Warn only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              Once a daily limit is reached the day is locked. Adding another trade that day then needs a reason, which is saved to the journal.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="fx-rates-file">FX rates</Label>
+            <p className="text-xs text-slate-500">
+              Upload a CSV with date, currency and rate columns, plus an optional "to" column.
+              Without one, each rate converts the currency into the base currency.
+              Re-uploading a date replaces its rate.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                id="fx-rates-file"
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] || null);
+                  setImportResult(null);
+                }}
+              />
+              <Button
+                type="button"
+                disabled={!file || importRatesMutation.isPending}
+                onClick={() => file && importRatesMutation.mutate(file)}
+              >
+                <FileUp className="mr-2 w-4 h-4" />
+                Upload
+              </Button>
+            </div>
+          </div>
+
+          {importResult && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              Imported {importResult.imported} rates.
+              {importResult.errors.length > 0 && (
+                <ul className="mt-2 text-amber-700 list-disc pl-5">
+                  {importResult.errors.slice(0, 5).map(error => <li key={error}>{error}</li>)}
+                  {importResult.errors.length > 5 && <li>…and {importResult.errors.length - 5} more</li>}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {errorMessage && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {errorMessage}
+            </div>
+          )}
+
+          {rates.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.slice(0, VISIBLE_RATES).map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell>{rate.date}</TableCell>
+                    <TableCell>{rate.fromCurrency}/{rate.toCurrency}</TableCell>
+                    <TableCell className="text-right">{rate.rate}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={deleteRateMutation.isPending}
+                        onClick={() => deleteRateMutation.mutate(rate.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {rates.length > VISIBLE_RATES && (
+            <p className="text-xs text-slate-500 text-center">
+              Showing the latest {VISIBLE_RATES} of {rates.length} rates
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatToday } from "@/lib/utils";
+
+interface AddChallengeModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function AddChallengeModal({ open, onOpenChange }: AddChallengeModalProps) {
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(formatToday());
+  const [deadline, setDeadline] = useState("");
+  const [startingBalance, setStartingBalance] = useState("");
+  const [profitTarget, setProfitTarget] = useState("");
+  const [maxDailyLoss, setMaxDailyLoss] = useState("");
+  const [dailyLossType, setDailyLossType] = useState("static");
+  const [maxDrawdown, setMaxDrawdown] = useState("");
+  const [minTradingDays, setMinTradingDays] = useState("");
+
+  const reset = () => {
+    setName("");
+    setStartDate(formatToday());
+    setDeadline("");
+    setStartingBalance("");
+    setProfitTarget("");
+    setMaxDailyLoss("");
+    setDailyLossType("static");
+    setMaxDrawdown("");
+    setMinTradingDays("");
+  };
+
+  const addChallengeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", "/api/challenges", {
+        name: name.trim(),
+        startDate,
+        deadline: deadline || null,
+        startingBalance: startingBalance.trim(),
+        profitTarget: profitTarget.trim(),
+        maxDailyLoss: maxDailyLoss.trim() || null,
+        dailyLossType,
+        maxDrawdown: maxDrawdown.trim() || null,
+        minTradingDays: minTradingDays ? parseInt(minTradingDays) : 0,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+      reset();
+      onOpenChange(false);
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) addChallengeMutation.reset();
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-full max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add Challenge</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="challenge-name">Name</Label>
+            <Input id="challenge-name" placeholder="e.g., 100k Phase 1" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="challenge-start">Start date</Label>
+              <Input id="challenge-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-deadline">Deadline</Label>
+              <Input id="challenge-deadline" type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-balance">Starting balance</Label>
+              <Input id="challenge-balance" type="number" value={startingBalance} onChange={(e) => setStartingBalance(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-target">Profit target</Label>
+              <Input id="challenge-target" type="number" value={profitTarget} onChange={(e) => setProfitTarget(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-daily-loss">Max daily loss</Label>
+              <Input id="challenge-daily-loss" type="number" placeholder="No limit" value={maxDailyLoss} onChange={(e) => setMaxDailyLoss(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Daily loss measured from</Label>
+              <Select value={dailyLossType} onValueChange={setDailyLossType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="static">Day's opening balance</SelectItem>
+                  <SelectItem value="trailing">Day's high (trailing)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-drawdown">Max drawdown</Label>
+              <Input id="challenge-drawdown" type="number" placeholder="No limit" value={maxDrawdown} onChange={(e) => setMaxDrawdown(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="challenge-days">Min trading days</Label>
+              <Input id="challenge-days" type="number" min={0} placeholder="0" value={minTradingDays} onChange={(e) => setMinTradingDays(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-slate-500">
+            Amounts are in your base currency. Max drawdown is measured from the starting balance.
+          </p>
+
+          {addChallengeMutation.error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {addChallengeMutation.error.message}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="flex-1"
+              disabled={!name.trim() || !startingBalance || !profitTarget || addChallengeMutation.isPending}
+              onClick={() => addChallengeMutation.mutate()}
+            >
+              Add Challenge
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
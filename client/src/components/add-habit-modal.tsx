@@ -9,7 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { insertHabitSchema } from "@shared/schema";
+import { insertHabitSchema, type HabitRuleType } from "@shared/schema";
 import type { InsertHabit } from "@shared/schema";
 
 interface AddHabitModalProps {
@@ -24,9 +24,13 @@ export default function AddHabitModal({ open, onOpenChange }: AddHabitModalProps
       name: "",
       description: "",
       category: "custom",
+      ruleType: null,
+      ruleValue: null,
     },
   });
 
+  const ruleType = form.watch("ruleType");
+
   const addHabitMutation = useMutation({
     mutationFn: (habit: InsertHabit) => 
       apiRequest("POST", "/api/habits", habit),
@@ -109,6 +113,58 @@ export default function AddHabitModal({ open, onOpenChange }: AddHabitModalProps
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="ruleType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Check automatically</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value === "none" ? null : value as HabitRuleType);
+                      form.setValue("ruleValue", null);
+                    }}
+                    value={field.value ?? "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No, tick it by hand</SelectItem>
+                      <SelectItem value="maxTradesPerDay">Max trades per day</SelectItem>
+                      <SelectItem value="noMistake">No trade with a mistake</SelectItem>
+                      <SelectItem value="noTag">No trade with a tag</SelectItem>
+                      <SelectItem value="journalWritten">Journal entry written</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {ruleType && ruleType !== "journalWritten" && (
+              <FormField
+                control={form.control}
+                name="ruleValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{ruleType === "maxTradesPerDay" ? "Trades per day" : ruleType === "noMistake" ? "Mistake" : "Tag"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type={ruleType === "maxTradesPerDay" ? "number" : "text"}
+                        placeholder={ruleType === "maxTradesPerDay" ? "3" : ruleType === "noMistake" ? "e.g., Ignored Stop Loss" : "e.g., News Event"}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            
             <div className="flex space-x-3 pt-4">
               <Button 
                 type="button" 
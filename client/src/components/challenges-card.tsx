@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Trophy, Plus, Trash2, History } from "lucide-react";
+import AddChallengeModal from "@/components/add-challenge-modal";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import type { ChallengeEvaluation, ChallengeRule, ChallengeRuleResult, ChallengeStatus, ChallengeWithStatus } from "@shared/schema";
+
+const ruleLabels: Record<ChallengeRule, string> = {
+  profitTarget: "Profit target",
+  dailyLoss: "Daily loss",
+  maxDrawdown: "Max drawdown",
+  minTradingDays: "Trading days",
+  deadline: "Deadline",
+};
+
+const statusStyles: Record<ChallengeStatus["status"], string> = {
+  active: "bg-blue-100 text-blue-700 border-blue-200",
+  passed: "bg-green-100 text-green-700 border-green-200",
+  failed: "bg-red-100 text-red-700 border-red-200",
+};
+
+const ruleStatusStyles: Record<ChallengeRuleResult["status"], string> = {
+  met: "text-green-600",
+  pending: "text-slate-600",
+  breached: "text-red-600",
+};
+
+function formatRemaining(rule: ChallengeRuleResult, currency: string): string {
+  if (rule.remaining === null) return "—";
+  if (rule.rule === "minTradingDays" || rule.rule === "deadline") return `${rule.remaining} days`;
+  return formatMoney(rule.remaining, currency);
+}
+
+// Only the latest evaluations are shown; every trade change adds one per active challenge
+const VISIBLE_EVALUATIONS = 10;
+
+function EvaluationLog({ challengeId }: { challengeId: number }) {
+  const { data: evaluations = [], isLoading } = useQuery<ChallengeEvaluation[]>({
+    queryKey: ["/api/challenges", challengeId, "evaluations"],
+    queryFn: () =>
+      fetch(`/api/challenges/${challengeId}/evaluations`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  if (isLoading) return <div className="text-sm text-slate-500">Loading history...</div>;
+  if (evaluations.length === 0) return <div className="text-sm text-slate-500">No evaluations logged yet</div>;
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {evaluations.slice(0, VISIBLE_EVALUATIONS).map(evaluation => (
+        <li key={evaluation.id} className="flex gap-2">
+          <span className="text-slate-500">{new Date(evaluation.evaluatedAt).toLocaleString()}</span>
+          <span className="capitalize font-medium">{evaluation.status}</span>
+          <span className="text-slate-600">balance {evaluation.balance}</span>
+          {evaluation.rules.filter(rule => rule.status === "breached").map(rule => (
+            <span key={rule.rule} className="text-red-600">{ruleLabels[rule.rule]} breached</span>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ChallengesCard() {
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+
+  const { data: challenges = [], isLoading } = useQuery<ChallengeWithStatus[]>({
+    queryKey: ["/api/challenges"],
+  });
+
+  const deleteChallengeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/challenges/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/challenges"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Trophy className="mr-2 w-5 h-5" />
+            Prop Firm Challenges
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setShowAddModal(true)}>
+            <Plus className="mr-1 w-4 h-4" />
+            Add Challenge
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading challenges...</div>
+        ) : challenges.length === 0 ? (
+          <div className="text-center text-slate-500 py-8">
+            <Trophy className="mx-auto w-12 h-12 text-slate-300 mb-3" />
+            <p>No challenges yet</p>
+            <p className="text-sm">Add a funded-account evaluation to track its rules</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {challenges.map(challenge => {
+              const { evaluation } = challenge;
+              const target = evaluation.rules.find(rule => rule.rule === "profitTarget");
+              const progress = target && target.limit > 0 ? Math.max(0, Math.min((target.value / target.limit) * 100, 100)) : 0;
+
+              return (
+                <div key={challenge.id} className="space-y-3 p-4 border rounded-lg">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4 className="font-semibold text-slate-900">{challenge.name}</h4>
+                        <Badge className={statusStyles[evaluation.status]}>
+                          <span className="capitalize">{evaluation.status}</span>
+                          {evaluation.decidedOn && <span className="ml-1">{evaluation.decidedOn}</span>}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-slate-600">
+                        Balance {formatMoney(evaluation.balance, evaluation.currency)} · {evaluation.tradingDays} trading days · since {challenge.startDate}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Evaluation history"
+                        onClick={() => setHistoryId(historyId === challenge.id ? null : challenge.id)}
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        aria-label="Delete challenge"
+                        disabled={deleteChallengeMutation.isPending}
+                        onClick={() => deleteChallengeMutation.mutate(challenge.id)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Progress value={progress} className="w-full" />
+
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                    {evaluation.rules.map(rule => (
+                      <div key={rule.rule} className="p-3 bg-slate-50 rounded-lg" title={rule.message}>
+                        <div className={`text-sm font-bold ${ruleStatusStyles[rule.status]}`}>
+                          {rule.status === "breached" ? "Breached" : formatRemaining(rule, evaluation.currency)}
+                        </div>
+                        <div className="text-xs text-slate-600">
+                          {ruleLabels[rule.rule]}{rule.status !== "breached" && (rule.rule === "profitTarget" || rule.rule === "minTradingDays" ? " to go" : " left")}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+
+                  {historyId === challenge.id && <EvaluationLog challengeId={challenge.id} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AddChallengeModal open={showAddModal} onOpenChange={setShowAddModal} />
+    </Card>
+  );
+}
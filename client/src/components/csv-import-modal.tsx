@@ -0,0 +1,405 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileUp, Trash2 } from "lucide-react";
+import { queryClient, apiRequest, invalidateTradeQueries } from "@/lib/queryClient";
+import { readFileAsText } from "@/lib/utils";
+import { importableTradeFields, importDateFormats } from "@shared/schema";
+import type { CsvImportPreview, ImportMapping, ImportableTradeField } from "@shared/schema";
+
+interface CsvImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "map" | "preview";
+
+interface MappingDraft {
+  columns: Record<string, string>;
+  dateFormat: typeof importDateFormats[number];
+  decimalSeparator: "." | ",";
+}
+
+const NOT_MAPPED = "__none__";
+
+const fieldLabels: Record<ImportableTradeField, string> = {
+  date: "Date",
+  entryTime: "Entry Time",
+  exitTime: "Exit Time",
+  symbol: "Symbol",
+  side: "Side",
+  entryPrice: "Entry Price",
+  exitPrice: "Exit Price",
+  quantity: "Quantity",
+  pnl: "P&L",
+  commission: "Commission",
+  swap: "Swap",
+  fees: "Fees",
+  currency: "Currency",
+  plannedStop: "Planned Stop",
+  plannedTarget: "Planned Target",
+  initialRisk: "Initial Risk",
+  setup: "Setup",
+  tags: "Tags",
+  emotionalState: "Emotional State",
+  mistakes: "Mistakes",
+  lessons: "Lessons",
+  rating: "Rating",
+  externalId: "Ticket / Trade ID",
+};
+
+const emptyMapping: MappingDraft = { columns: {}, dateFormat: "YYYY-MM-DD", decimalSeparator: "." };
+
+// Pre-select columns whose header matches a field name, e.g. "Entry Price" -> entryPrice
+function guessColumns(headers: string[]): Record<string, string> {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z]/g, "");
+  const columns: Record<string, string> = {};
+  for (const field of importableTradeFields) {
+    const header = headers.find(h => normalize(h) === normalize(field) || normalize(h) === normalize(fieldLabels[field]));
+    if (header) columns[field] = header;
+  }
+  return columns;
+}
+
+export default function CsvImportModal({ open, onOpenChange }: CsvImportModalProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [content, setContent] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<MappingDraft>(emptyMapping);
+  const [savedMappingId, setSavedMappingId] = useState<string>(NOT_MAPPED);
+  const [brokerName, setBrokerName] = useState("");
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+
+  const { data: savedMappings = [] } = useQuery<ImportMapping[]>({
+    queryKey: ["/api/import-mappings"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (payload: { content: string; mapping: MappingDraft }) => {
+      const res = await apiRequest("POST", "/api/trades/import/csv/preview", payload);
+      return res.json() as Promise<CsvImportPreview>;
+    },
+  });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: (broker: string) =>
+      apiRequest("POST", "/api/import-mappings", { broker, ...mapping }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mappings"] });
+    },
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/import-mappings/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-mappings"] });
+      setSavedMappingId(NOT_MAPPED);
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      if (brokerName.trim()) {
+        await saveMappingMutation.mutateAsync(brokerName.trim());
+      }
+      const res = await apiRequest("POST", "/api/trades/import/csv", { content, mapping });
+      return res.json() as Promise<{ created: number; updated: number; total: number }>;
+    },
+    onSuccess: (data) => {
+      invalidateTradeQueries();
+      setImportedCount(data.total);
+    },
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setContent("");
+    setFile(null);
+    setMapping(emptyMapping);
+    setSavedMappingId(NOT_MAPPED);
+    setBrokerName("");
+    setPreview(null);
+    setImportedCount(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    const text = await readFileAsText(file);
+    const saved = savedMappings.find(m => String(m.id) === savedMappingId);
+    const draft: MappingDraft = saved
+      ? {
+          columns: saved.columns,
+          dateFormat: saved.dateFormat as MappingDraft["dateFormat"],
+          decimalSeparator: saved.decimalSeparator as MappingDraft["decimalSeparator"],
+        }
+      : emptyMapping;
+
+    const result = await previewMutation.mutateAsync({ content: text, mapping: draft });
+    setContent(text);
+
+    if (saved && Object.values(saved.columns).every(header => result.headers.includes(header))) {
+      // A saved mapping that still fits the file skips straight to the preview
+      setMapping(draft);
+      setBrokerName(saved.broker);
+      setPreview(result);
+      setStep("preview");
+    } else {
+      setMapping({ ...draft, columns: saved ? draft.columns : guessColumns(result.headers) });
+      setPreview(result);
+      setStep("map");
+    }
+  };
+
+  const handlePreview = async () => {
+    const result = await previewMutation.mutateAsync({ content, mapping });
+    setPreview(result);
+    setStep("preview");
+  };
+
+  const setColumn = (field: string, header: string) => {
+    const columns = { ...mapping.columns };
+    if (header === NOT_MAPPED) {
+      delete columns[field];
+    } else {
+      columns[field] = header;
+    }
+    setMapping({ ...mapping, columns });
+  };
+
+  const errorMessage = previewMutation.error?.message || importMutation.error?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Trades from CSV</DialogTitle>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Saved mapping</Label>
+              <div className="flex gap-2">
+                <Select value={savedMappingId} onValueChange={setSavedMappingId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>New mapping</SelectItem>
+                    {savedMappings.map(m => (
+                      <SelectItem key={m.id} value={String(m.id)}>{m.broker}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {savedMappingId !== NOT_MAPPED && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => deleteMappingMutation.mutate(parseInt(savedMappingId))}
+                    disabled={deleteMappingMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="csv-file">CSV file</Label>
+              <Input
+                id="csv-file"
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+
+            <div className="flex space-x-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                disabled={!file || previewMutation.isPending}
+                onClick={handleUpload}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && preview && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(value) => setMapping({ ...mapping, dateFormat: value as MappingDraft["dateFormat"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {importDateFormats.map(format => (
+                      <SelectItem key={format} value={format}>{format}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Decimal separator</Label>
+                <Select
+                  value={mapping.decimalSeparator}
+                  onValueChange={(value) => setMapping({ ...mapping, decimalSeparator: value as MappingDraft["decimalSeparator"] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value=".">Point (1,234.56)</SelectItem>
+                    <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {importableTradeFields.map(field => (
+                <div key={field} className="flex items-center gap-2">
+                  <Label className="w-32 shrink-0 text-sm">{fieldLabels[field]}</Label>
+                  <Select
+                    value={mapping.columns[field] || NOT_MAPPED}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {preview.headers.filter(Boolean).map(header => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex space-x-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                disabled={previewMutation.isPending}
+                onClick={handlePreview}
+              >
+                Preview
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge className="bg-green-100 text-green-700 border-green-200">{preview.validCount} valid</Badge>
+              {preview.errorCount > 0 && (
+                <Badge variant="destructive">{preview.errorCount} with errors</Badge>
+              )}
+            </div>
+
+            <div className="max-h-72 overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Symbol</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead>P&L</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>{row.trade?.date}</TableCell>
+                      <TableCell>{row.trade?.symbol}</TableCell>
+                      <TableCell>{row.trade?.side}</TableCell>
+                      <TableCell>{row.trade?.pnl}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="text-green-600">OK</span>
+                        ) : (
+                          <div className="space-y-1 text-xs text-red-600">
+                            {row.errors.map(error => <div key={error}>{error}</div>)}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="broker-name">Save mapping for broker (optional)</Label>
+              <Input
+                id="broker-name"
+                placeholder="e.g., Interactive Brokers"
+                value={brokerName}
+                onChange={(e) => setBrokerName(e.target.value)}
+              />
+            </div>
+
+            {importedCount !== null && (
+              <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+                Imported {importedCount} trades.
+              </div>
+            )}
+
+            <div className="flex space-x-3 pt-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setStep("map")}>
+                Edit Mapping
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                disabled={preview.validCount === 0 || importMutation.isPending || importedCount !== null}
+                onClick={() => importMutation.mutate()}
+              >
+                <FileUp className="mr-2 w-4 h-4" />
+                Import {preview.validCount} Trades
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {errorMessage && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {errorMessage}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Lock } from "lucide-react";
+import { formatLocalDate } from "@/lib/utils";
+import type { DailyLimitStatus } from "@shared/schema";
+
+export default function DailyLockBanner() {
+  const today = formatLocalDate();
+
+  const { data: status } = useQuery<DailyLimitStatus>({
+    queryKey: ["/api/daily-limits", today],
+    queryFn: () =>
+      fetch(`/api/daily-limits?date=${today}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  if (!status?.locked) return null;
+
+  return (
+    <Alert className="mb-8 border-red-300 bg-red-50 text-red-900">
+      <Lock className="h-4 w-4" />
+      <AlertTitle className="text-lg font-semibold">
+        {status.mode === "block" ? "Trading locked for today" : "Daily limit reached"}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {status.breaches.map(breach => (
+            <li key={breach.kind}>{breach.message}</li>
+          ))}
+        </ul>
+        <p className="mt-2 text-sm">
+          {status.mode === "block"
+            ? "Step away for the rest of the day. Adding another trade needs a reason, which goes into today's journal."
+            : "Consider stopping for the day."}
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
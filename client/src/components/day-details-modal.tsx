@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TradesList from "@/components/trades-list";
+import { getMoodEmoji } from "@/lib/utils";
+import type { EmotionalCheckIn, JournalEntry } from "@shared/schema";
+
+interface DayDetailsModalProps {
+  date: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The by-date routes send an empty body when nothing was recorded that day
+function fetchForDate<T>(url: string): Promise<T | null> {
+  return fetch(url, { credentials: "include" })
+    .then(res => res.text())
+    .then(text => (text ? JSON.parse(text) : null));
+}
+
+export default function DayDetailsModal({ date, onOpenChange }: DayDetailsModalProps) {
+  const { data: checkIn } = useQuery<EmotionalCheckIn | null>({
+    queryKey: ["/api/emotional-checkin", date],
+    queryFn: () => fetchForDate<EmotionalCheckIn>(`/api/emotional-checkin/${date}`),
+    enabled: !!date,
+  });
+
+  const { data: journalEntry } = useQuery<JournalEntry | null>({
+    queryKey: ["/api/journal", date],
+    queryFn: () => fetchForDate<JournalEntry>(`/api/journal/${date}`),
+    enabled: !!date,
+  });
+
+  return (
+    <Dialog open={!!date} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{date}</DialogTitle>
+        </DialogHeader>
+
+        {date && (
+          <div className="space-y-4">
+            <div className="grid sm:grid-cols-3 gap-4">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-sm text-slate-600 mb-1">Check-in</div>
+                {checkIn ? (
+                  <div className="font-medium capitalize">{getMoodEmoji(checkIn.mood)} {checkIn.mood}</div>
+                ) : (
+                  <div className="text-slate-400">No check-in</div>
+                )}
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg sm:col-span-2">
+                <div className="text-sm text-slate-600 mb-1">Journal</div>
+                {journalEntry?.content ? (
+                  <p className="text-sm text-slate-800 whitespace-pre-wrap">{journalEntry.content}</p>
+                ) : (
+                  <div className="text-slate-400">No journal entry</div>
+                )}
+              </div>
+            </div>
+
+            <TradesList title="Trades" startDate={date} endDate={date} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Brain } from "lucide-react";
+import { formatMoney, getMoodEmoji } from "@/lib/utils";
+import type { EmotionAnalytics, EmotionOutcome } from "@shared/schema";
+
+const MOODS = ["excellent", "good", "neutral", "stressed", "angry"];
+
+// Fewer trades than this make loss comparisons too noisy to call out
+const MIN_INSIGHT_TRADES = 3;
+const INSIGHT_LOSS_MULTIPLE = 1.5;
+
+function OutcomeTable({ title, outcomes, currency, showEmoji }: {
+  title: string;
+  outcomes: EmotionOutcome[];
+  currency: string;
+  showEmoji?: boolean;
+}) {
+  return (
+    <div>
+      <h5 className="text-sm font-medium text-slate-700 mb-2">{title}</h5>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead />
+            <TableHead className="text-right">Trades</TableHead>
+            <TableHead className="text-right">Win Rate</TableHead>
+            <TableHead className="text-right">Avg P&L</TableHead>
+            <TableHead className="text-right">Expectancy</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {outcomes.map(outcome => (
+            <TableRow key={outcome.key}>
+              <TableCell className="capitalize">
+                {showEmoji && MOODS.includes(outcome.key) && `${getMoodEmoji(outcome.key)} `}
+                {outcome.key}
+              </TableCell>
+              <TableCell className="text-right">{outcome.trades}</TableCell>
+              <TableCell className="text-right">{outcome.winRate}%</TableCell>
+              <TableCell className={`text-right font-semibold ${outcome.avgPnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatMoney(outcome.avgPnl, currency)}
+              </TableCell>
+              <TableCell className="text-right">
+                {outcome.expectancyR === null ? "—" : `${outcome.expectancyR.toFixed(2)}R`}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function EmotionAnalyticsCard() {
+  const { data: analytics, isLoading } = useQuery<EmotionAnalytics>({
+    queryKey: ["/api/analytics", "emotions"],
+    queryFn: () =>
+      fetch("/api/analytics/emotions", {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const insights = analytics
+    ? [
+        ...analytics.byMood.filter(outcome => MOODS.includes(outcome.key)).map(outcome => ({ outcome, label: `On ${outcome.key} days` })),
+        ...analytics.byEmotionalState.map(outcome => ({ outcome, label: `When ${outcome.key}` })),
+      ].filter(({ outcome }) =>
+        outcome.trades >= MIN_INSIGHT_TRADES && outcome.lossMultiple !== null && outcome.lossMultiple >= INSIGHT_LOSS_MULTIPLE
+      )
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Brain className="mr-2 w-5 h-5" />
+          Emotions vs Outcomes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading emotion analytics...</div>
+        ) : !analytics || analytics.byMood.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">No closed trades yet</div>
+        ) : (
+          <div className="space-y-6">
+            {insights.length > 0 && (
+              <ul className="space-y-1">
+                {insights.map(({ outcome, label }) => (
+                  <li key={label} className="p-2 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+                    {label} your average loss is {outcome.lossMultiple!.toFixed(1)}x larger than otherwise
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <OutcomeTable title="By daily check-in mood" outcomes={analytics.byMood} currency={analytics.currency} showEmoji />
+
+            {analytics.byEmotionalState.length > 0 && (
+              <OutcomeTable title="By emotional state on the trade" outcomes={analytics.byEmotionalState} currency={analytics.currency} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart as LineChartIcon } from "lucide-react";
+import { formatMoney } from "@/lib/utils";
+import type { EquityCurve } from "@shared/schema";
+
+type Series = "trades" | "days";
+
+const chartConfig = {
+  equity: { label: "Equity", color: "hsl(var(--primary))" },
+  peak: { label: "Peak", color: "hsl(215 16% 65%)" },
+  drawdown: { label: "Drawdown", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+export default function EquityCurveCard() {
+  const [series, setSeries] = useState<Series>("days");
+
+  const { data: curve, isLoading } = useQuery<EquityCurve>({
+    queryKey: ["/api/equity-curve"],
+  });
+
+  const points = curve
+    ? curve[series].map((point, index) => ({
+        ...point,
+        label: series === "trades" ? `#${index + 1} · ${point.date}` : point.date,
+        // Plotted below zero so drawdowns hang under the axis
+        drawdown: -point.drawdown,
+      }))
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <LineChartIcon className="mr-2 w-5 h-5" />
+            Equity Curve
+          </span>
+          <div className="flex gap-1">
+            {(["days", "trades"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={series === option ? "default" : "outline"}
+                onClick={() => setSeries(option)}
+              >
+                {option === "days" ? "Per day" : "Per trade"}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading equity curve...</div>
+        ) : !curve || curve.trades.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">No closed trades yet</div>
+        ) : (
+          <div className="space-y-4">
+            <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+              <ComposedChart data={points}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} minTickGap={24} />
+                <YAxis tickLine={false} width={70} tickFormatter={(value) => formatMoney(value, curve.currency)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Area dataKey="drawdown" type="stepAfter" fill="var(--color-drawdown)" fillOpacity={0.2} stroke="var(--color-drawdown)" />
+                <Line dataKey="peak" type="stepAfter" stroke="var(--color-peak)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="equity" type="monotone" stroke="var(--color-equity)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-red-600">
+                  {formatMoney(curve.maxDrawdown, curve.currency)}
+                  {curve.maxDrawdownPercent !== null && (
+                    <span className="text-sm font-normal"> ({curve.maxDrawdownPercent.toFixed(1)}%)</span>
+                  )}
+                </div>
+                <div className="text-sm text-slate-600">Max Drawdown</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-slate-900">
+                  {curve.longestDrawdown.days}d · {curve.longestDrawdown.trades} trades
+                </div>
+                <div className="text-sm text-slate-600">
+                  Longest Drawdown{!curve.longestDrawdown.recovered && curve.longestDrawdown.trades > 0 && " (ongoing)"}
+                </div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className={`text-lg font-bold ${curve.currentDrawdown > 0 ? "text-red-600" : "text-green-600"}`}>
+                  {formatMoney(curve.currentDrawdown, curve.currency)}
+                </div>
+                <div className="text-sm text-slate-600">Current Drawdown</div>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
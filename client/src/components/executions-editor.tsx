@@ -0,0 +1,130 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { toDateTimeLocal } from "@/lib/utils";
+import type { ExecutionSummary } from "@shared/trade-math";
+import type { TradeExecution } from "@shared/schema";
+
+export interface ExecutionDraft {
+  executedAt: string;
+  side: "buy" | "sell";
+  price: string;
+  quantity: string;
+  fees: string;
+}
+
+export function toExecutionDraft(execution: TradeExecution): ExecutionDraft {
+  return {
+    executedAt: toDateTimeLocal(execution.executedAt),
+    side: execution.side === "sell" ? "sell" : "buy",
+    price: execution.price,
+    quantity: execution.quantity,
+    fees: execution.fees || "",
+  };
+}
+
+// Rows still missing a time, price or size are left out until filled in
+export function completeExecutionDrafts(executions: ExecutionDraft[]) {
+  return executions
+    .filter(e => e.executedAt && e.price && e.quantity)
+    .map(e => ({ ...e, executedAt: new Date(e.executedAt).toISOString() }));
+}
+
+interface ExecutionsEditorProps {
+  executions: ExecutionDraft[];
+  onChange: (executions: ExecutionDraft[]) => void;
+  side: string; // the trade's side, which decides the first fill's side
+  summary: ExecutionSummary | null;
+}
+
+export default function ExecutionsEditor({ executions, onChange, side, summary }: ExecutionsEditorProps) {
+  const addExecution = () => {
+    const openingSide = side === "short" ? "sell" : "buy";
+    onChange([
+      ...executions,
+      {
+        executedAt: "",
+        side: executions.length === 0 ? openingSide : openingSide === "buy" ? "sell" : "buy",
+        price: "",
+        quantity: "",
+        fees: "",
+      },
+    ]);
+  };
+
+  const updateExecution = (index: number, changes: Partial<ExecutionDraft>) => {
+    onChange(executions.map((e, i) => i === index ? { ...e, ...changes } : e));
+  };
+
+  const removeExecution = (index: number) => {
+    onChange(executions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label>Fills</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addExecution}>
+          <Plus className="mr-1 w-4 h-4" />
+          Add Fill
+        </Button>
+      </div>
+      <p className="text-xs text-slate-500 mt-1">
+        Record each partial fill to derive the average prices, size and P&L.
+      </p>
+      {executions.length > 0 && (
+        <div className="space-y-2 mt-3">
+          {executions.map((execution, index) => (
+            <div key={index} className="grid grid-cols-[1.6fr_0.8fr_1fr_1fr_0.8fr_auto] gap-2 items-center">
+              <Input
+                type="datetime-local"
+                value={execution.executedAt}
+                onChange={(e) => updateExecution(index, { executedAt: e.target.value })}
+              />
+              <Select
+                value={execution.side}
+                onValueChange={(value) => updateExecution(index, { side: value as ExecutionDraft["side"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="buy">Buy</SelectItem>
+                  <SelectItem value="sell">Sell</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Price"
+                value={execution.price}
+                onChange={(e) => updateExecution(index, { price: e.target.value })}
+              />
+              <Input
+                placeholder="Qty"
+                value={execution.quantity}
+                onChange={(e) => updateExecution(index, { quantity: e.target.value })}
+              />
+              <Input
+                placeholder="Fees"
+                value={execution.fees}
+                onChange={(e) => updateExecution(index, { fees: e.target.value })}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => removeExecution(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {summary && (
+            <div className="text-sm text-slate-600 p-3 bg-slate-50 rounded-lg">
+              Avg entry {summary.entryPrice}
+              {summary.exitPrice && <> · Avg exit {summary.exitPrice}</>}
+              {" "}· Size {summary.quantity} · Fees {summary.fees}
+              {summary.pnl && <> · P&L {summary.pnl}</>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
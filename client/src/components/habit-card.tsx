@@ -1,8 +1,10 @@
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Flame, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Flame, Check, Bot, RotateCcw } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { describeHabitRule } from "@/lib/utils";
 import ProgressCircle from "./progress-circle";
 import type { HabitWithStats } from "@shared/schema";
 
@@ -11,6 +13,14 @@ interface HabitCardProps {
   date: string;
 }
 
+function invalidateHabitQueries() {
+  queryClient.invalidateQueries({ queryKey: ["/api/habits-with-stats"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/weekly-progress"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/monthly-stats"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/analytics", "habits"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
+}
+
 export default function HabitCard({ habit, date }: HabitCardProps) {
   const toggleHabitMutation = useMutation({
     mutationFn: (completed: boolean) => 
@@ -19,11 +29,13 @@ export default function HabitCard({ habit, date }: HabitCardProps) {
         date,
         completed
       }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/habits-with-stats"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/weekly-progress"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/monthly-stats"] });
-    },
+    onSuccess: invalidateHabitQueries,
+  });
+
+  // Removing the manual completion hands the day back to the habit's rule
+  const resetOverrideMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/habit-completions/${habit.id}/${date}`),
+    onSuccess: invalidateHabitQueries,
   });
 
   const handleToggle = () => {
@@ -57,6 +69,29 @@ export default function HabitCard({ habit, date }: HabitCardProps) {
             {habit.description && (
               <p className="text-sm text-slate-600 mt-1">{habit.description}</p>
             )}
+            {habit.ruleType && (
+              <div className="flex items-center gap-2 mt-1">
+                <Badge variant="outline" className="text-xs font-normal">
+                  <Bot className="mr-1 w-3 h-3" />
+                  {describeHabitRule(habit.ruleType, habit.ruleValue)}
+                </Badge>
+                {habit.todaySource === "manual" && (
+                  <>
+                    <span className="text-xs text-slate-500">Set by hand today</span>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      disabled={resetOverrideMutation.isPending}
+                      onClick={() => resetOverrideMutation.mutate()}
+                    >
+                      <RotateCcw className="mr-1 w-3 h-3" />
+                      Use rule
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
             <div className="flex items-center mt-2 space-x-4">
               <div className={`flex items-center text-sm ${
                 habit.currentStreak > 0 ? "text-success-600" : "text-slate-400"
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Link2 } from "lucide-react";
+import { formatMoney } from "@/lib/utils";
+import type { HabitCorrelationAnalytics, HabitPerformanceGroup } from "@shared/schema";
+
+function GroupCell({ group, currency }: { group: HabitPerformanceGroup; currency: string }) {
+  if (group.days === 0) return <span className="text-slate-400">—</span>;
+  return (
+    <div className="text-right">
+      <div className={`font-semibold ${(group.avgDailyPnl || 0) >= 0 ? "text-green-600" : "text-red-600"}`}>
+        {formatMoney(group.avgDailyPnl || 0, currency)}/day
+      </div>
+      <div className="text-xs text-slate-500">
+        {group.winRate}% win · {group.days}d · {group.trades} trades
+      </div>
+    </div>
+  );
+}
+
+export default function HabitCorrelationCard() {
+  const { data: analytics, isLoading } = useQuery<HabitCorrelationAnalytics>({
+    queryKey: ["/api/analytics", "habits"],
+    queryFn: () =>
+      fetch("/api/analytics/habits", {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Link2 className="mr-2 w-5 h-5" />
+          Habits vs Performance
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading habit correlations...</div>
+        ) : !analytics || analytics.habits.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">Track habits on trading days to see which ones pay off</div>
+        ) : (
+          <div className="space-y-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Habit</TableHead>
+                  <TableHead className="text-right">Completed</TableHead>
+                  <TableHead className="text-right">Missed</TableHead>
+                  <TableHead className="text-right">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.habits.map(habit => (
+                  <TableRow key={habit.habitId}>
+                    <TableCell className="font-medium">{habit.habitName}</TableCell>
+                    <TableCell><GroupCell group={habit.completed} currency={analytics.currency} /></TableCell>
+                    <TableCell><GroupCell group={habit.missed} currency={analytics.currency} /></TableCell>
+                    <TableCell className="text-right">
+                      {habit.difference === null ? (
+                        <span className="text-slate-400">—</span>
+                      ) : (
+                        <div className="flex items-center justify-end gap-2">
+                          <span className={`font-semibold ${habit.difference >= 0 ? "text-green-600" : "text-red-600"}`}>
+                            {formatMoney(habit.difference, analytics.currency)}
+                          </span>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge
+                                variant="outline"
+                                className={habit.significant ? "bg-green-50 text-green-700 border-green-200" : "text-slate-500"}
+                              >
+                                {habit.significant ? "Significant" : "Not yet"}
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-xs">
+                              {habit.tStat === null
+                                ? "Not enough variation in daily P&L to test"
+                                : `t = ${habit.tStat.toFixed(2)}. Significant needs |t| ≥ 2 and at least 5 trading days on each side.`}
+                            </TooltipContent>
+                          </Tooltip>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-slate-500">
+              Compares trading days from a habit's first check-off onwards. A correlation, not proof the habit causes the difference.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
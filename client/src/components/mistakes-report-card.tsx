@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { AlertOctagon } from "lucide-react";
+import { formatMoney } from "@/lib/utils";
+import type { MistakeReport } from "@shared/schema";
+
+// Only the costliest mistakes are charted; the rest would be unreadable slivers
+const CHARTED_MISTAKES = 5;
+const MISTAKE_COLORS = ["hsl(0 84% 60%)", "hsl(25 95% 53%)", "hsl(45 93% 47%)", "hsl(262 83% 58%)", "hsl(215 16% 47%)"];
+
+export default function MistakesReportCard() {
+  const { data: report, isLoading } = useQuery<MistakeReport>({
+    queryKey: ["/api/analytics", "mistakes"],
+    queryFn: () =>
+      fetch("/api/analytics/mistakes", {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const charted = report?.mistakes.slice(0, CHARTED_MISTAKES).map(cost => cost.mistake) || [];
+  // Series keys are indexed because mistake labels contain spaces, which CSS variables can't
+  const chartConfig: ChartConfig = Object.fromEntries(
+    charted.map((mistake, index) => [`m${index}`, { label: mistake, color: MISTAKE_COLORS[index] }])
+  );
+  const frequency = report?.frequency.map(month => ({
+    month: month.month,
+    ...Object.fromEntries(charted.map((mistake, index) => [`m${index}`, month.counts[mistake] || 0])),
+  })) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <AlertOctagon className="mr-2 w-5 h-5" />
+          Cost of Mistakes
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading mistakes...</div>
+        ) : !report || report.mistakes.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">Tag trades with mistakes in their review to see what they cost</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className={`text-lg font-bold ${report.totalPnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatMoney(report.totalPnl, report.currency)}
+                </div>
+                <div className="text-sm text-slate-600">Actual P&L</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className={`text-lg font-bold ${report.pnlIfAllSkipped >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatMoney(report.pnlIfAllSkipped, report.currency)}
+                </div>
+                <div className="text-sm text-slate-600">P&L if Skipped</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-slate-900">{report.tradesWithMistakes}</div>
+                <div className="text-sm text-slate-600">Trades with Mistakes</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mistake</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Total P&L</TableHead>
+                  <TableHead className="text-right">Avg P&L</TableHead>
+                  <TableHead className="text-right">P&L if Skipped</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.mistakes.map(cost => (
+                  <TableRow key={cost.mistake}>
+                    <TableCell className="font-medium">{cost.mistake}</TableCell>
+                    <TableCell className="text-right">{cost.trades}</TableCell>
+                    <TableCell className={`text-right font-semibold ${cost.pnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatMoney(cost.pnl, report.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(cost.avgPnl, report.currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(cost.pnlIfSkipped, report.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {frequency.length > 1 && (
+              <div>
+                <h5 className="text-sm font-medium text-slate-700 mb-2">Frequency by month</h5>
+                <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                  <BarChart data={frequency}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} />
+                    <YAxis tickLine={false} allowDecimals={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {charted.map((_, index) => (
+                      <Bar key={index} dataKey={`m${index}`} stackId="mistakes" fill={`var(--color-m${index})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            )}
+
+            <p className="text-xs text-slate-500">
+              Trades with several mistakes count towards each of them; the headline figure skips each trade once.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
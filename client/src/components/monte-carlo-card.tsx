@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Dices } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import type { Distribution, MonteCarloResult } from "@shared/schema";
+
+const chartConfig = {
+  count: { label: "Simulations", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+export default function MonteCarloCard() {
+  const [simulations, setSimulations] = useState("1000");
+  const [tradesPerSimulation, setTradesPerSimulation] = useState("");
+  const [startingBalance, setStartingBalance] = useState("");
+  const [ruinPercent, setRuinPercent] = useState("50");
+  const [symbol, setSymbol] = useState("");
+  const [setup, setSetup] = useState("");
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/analytics/monte-carlo", {
+        simulations: simulations || undefined,
+        tradesPerSimulation: tradesPerSimulation || undefined,
+        startingBalance: startingBalance || undefined,
+        ruinPercent: ruinPercent || undefined,
+        symbol: symbol.trim() || undefined,
+        setup: setup.trim() || undefined,
+      });
+      return res.json() as Promise<MonteCarloResult>;
+    },
+  });
+
+  const result = simulateMutation.data;
+
+  const rows: { label: string; distribution: Distribution; format: (value: number) => string }[] = result
+    ? [
+        { label: "Final equity", distribution: result.finalEquity, format: (value) => formatMoney(value, result.currency) },
+        { label: "Max drawdown", distribution: result.maxDrawdown, format: (value) => formatMoney(value, result.currency) },
+        { label: "Max drawdown %", distribution: result.maxDrawdownPercent, format: (value) => `${value.toFixed(1)}%` },
+        { label: "Longest losing streak", distribution: result.longestLosingStreak, format: (value) => value.toFixed(0) },
+      ]
+    : [];
+
+  const histogram = result?.finalEquity.histogram.map(bucket => ({
+    ...bucket,
+    label: formatMoney((bucket.from + bucket.to) / 2, result.currency),
+  })) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Dices className="mr-2 w-5 h-5" />
+          Monte Carlo Simulation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mc-simulations">Simulations</Label>
+            <Input id="mc-simulations" type="number" min={100} max={10000} value={simulations} onChange={(e) => setSimulations(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-trades">Trades per run</Label>
+            <Input id="mc-trades" type="number" min={1} max={1000} placeholder="Sample size" value={tradesPerSimulation} onChange={(e) => setTradesPerSimulation(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-balance">Starting balance</Label>
+            <Input id="mc-balance" type="number" placeholder="Account setting" value={startingBalance} onChange={(e) => setStartingBalance(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-ruin">Ruin at drawdown (%)</Label>
+            <Input id="mc-ruin" type="number" min={1} max={100} value={ruinPercent} onChange={(e) => setRuinPercent(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-symbol">Symbol</Label>
+            <Input id="mc-symbol" placeholder="All" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mc-setup">Setup</Label>
+            <Input id="mc-setup" placeholder="All" value={setup} onChange={(e) => setSetup(e.target.value)} />
+          </div>
+        </div>
+
+        <Button type="button" disabled={simulateMutation.isPending} onClick={() => simulateMutation.mutate()}>
+          {simulateMutation.isPending ? "Simulating..." : "Run simulation"}
+        </Button>
+
+        {simulateMutation.error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {simulateMutation.error.message}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className={`text-lg font-bold ${result.riskOfRuin > 5 ? "text-red-600" : "text-green-600"}`}>
+                  {result.riskOfRuin.toFixed(1)}%
+                </div>
+                <div className="text-sm text-slate-600">Risk of Ruin</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-slate-900">{formatMoney(result.ruinBalance, result.currency)}</div>
+                <div className="text-sm text-slate-600">Ruin Balance</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-slate-900">{result.sampleSize}</div>
+                <div className="text-sm text-slate-600">Trades Sampled</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead className="text-right">5th</TableHead>
+                  <TableHead className="text-right">25th</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">75th</TableHead>
+                  <TableHead className="text-right">95th</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ label, distribution, format }) => (
+                  <TableRow key={label}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    <TableCell className="text-right">{format(distribution.p5)}</TableCell>
+                    <TableCell className="text-right">{format(distribution.p25)}</TableCell>
+                    <TableCell className="text-right font-semibold">{format(distribution.p50)}</TableCell>
+                    <TableCell className="text-right">{format(distribution.p75)}</TableCell>
+                    <TableCell className="text-right">{format(distribution.p95)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div>
+              <h5 className="text-sm font-medium text-slate-700 mb-2">
+                Final equity after {result.tradesPerSimulation} trades ({result.simulations} runs)
+              </h5>
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <BarChart data={histogram}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} minTickGap={24} fontSize={10} />
+                  <YAxis tickLine={false} allowDecimals={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Trades are drawn at random with replacement from your history, so results assume future trades look like past ones.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
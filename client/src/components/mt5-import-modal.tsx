@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FileUp } from "lucide-react";
+import { apiRequest, invalidateTradeQueries } from "@/lib/queryClient";
+import { readFileAsText } from "@/lib/utils";
+
+interface Mt5ImportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  total: number;
+}
+
+export default function Mt5ImportModal({ open, onOpenChange }: Mt5ImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (reportFile: File) => {
+      const content = await readFileAsText(reportFile);
+      const res = await apiRequest("POST", "/api/trades/import/mt5", { content });
+      return res.json() as Promise<ImportResult>;
+    },
+    onSuccess: (data) => {
+      invalidateTradeQueries();
+      setResult(data);
+    },
+  });
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setFile(null);
+      setResult(null);
+      importMutation.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-full max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import MT5 History</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            In MetaTrader 5 open the History tab, right-click and choose Report, then save it as HTML or CSV.
+            Re-importing the same report updates existing trades instead of duplicating them.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="mt5-report">Report file</Label>
+            <Input
+              id="mt5-report"
+              type="file"
+              accept=".html,.htm,.xlsx,.csv"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+          </div>
+
+          {result && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              Imported {result.total} positions: {result.created} new, {result.updated} updated.
+            </div>
+          )}
+
+          {importMutation.isError && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {importMutation.error.message}
+            </div>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={() => handleOpenChange(false)}
+            >
+              {result ? "Done" : "Cancel"}
+            </Button>
+            <Button
+              type="button"
+              className="flex-1"
+              disabled={!file || importMutation.isPending}
+              onClick={() => file && importMutation.mutate(file)}
+            >
+              <FileUp className="mr-2 w-4 h-4" />
+              Import
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowDown, ArrowUp, Layers } from "lucide-react";
+import { formatMoney } from "@/lib/utils";
+import type { BreakdownDimension, BreakdownGroup, PerformanceBreakdown } from "@shared/schema";
+
+type SortKey = Exclude<keyof BreakdownGroup, "key">;
+
+const dimensionLabels: Record<BreakdownDimension, string> = {
+  setup: "Setup",
+  tag: "Tag",
+  symbol: "Symbol",
+  side: "Side",
+  weekday: "Weekday",
+  month: "Month",
+};
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: "trades", label: "Trades" },
+  { key: "winRate", label: "Win Rate" },
+  { key: "pnl", label: "Net P&L" },
+  { key: "expectancy", label: "Expectancy" },
+  { key: "profitFactor", label: "Profit Factor" },
+];
+
+const chartConfig = {
+  pnl: { label: "Net P&L" },
+} satisfies ChartConfig;
+
+const PROFIT_COLOR = "hsl(142 71% 45%)";
+const LOSS_COLOR = "hsl(0 84% 60%)";
+
+export default function PerformanceBreakdownCard() {
+  const [by, setBy] = useState<BreakdownDimension>("setup");
+  // null keeps the server's order: calendar order for weekday and month, most traded first otherwise
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean } | null>(null);
+
+  const { data: breakdown, isLoading } = useQuery<PerformanceBreakdown>({
+    queryKey: ["/api/trading-stats", "breakdown", by],
+    queryFn: () =>
+      fetch(`/api/trading-stats/breakdown?by=${by}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const groups = breakdown
+    ? sort
+      ? [...breakdown.groups].sort((a, b) => (sort.descending ? b[sort.key] - a[sort.key] : a[sort.key] - b[sort.key]))
+      : breakdown.groups
+    : [];
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => (current?.key === key ? { key, descending: !current.descending } : { key, descending: true }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Layers className="mr-2 w-5 h-5" />
+            Performance Breakdown
+          </span>
+          <Select
+            value={by}
+            onValueChange={(value) => {
+              setBy(value as BreakdownDimension);
+              setSort(null);
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(dimensionLabels) as BreakdownDimension[]).map(dimension => (
+                <SelectItem key={dimension} value={dimension}>By {dimensionLabels[dimension].toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading breakdown...</div>
+        ) : !breakdown || groups.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">No closed trades yet</div>
+        ) : (
+          <div className="space-y-4">
+            <ChartContainer config={chartConfig} className="w-full aspect-auto" style={{ height: Math.max(groups.length * 28, 120) }}>
+              <BarChart data={groups} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} tickFormatter={(value) => formatMoney(value, breakdown.currency)} />
+                <YAxis type="category" dataKey="key" tickLine={false} width={100} fontSize={12} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="pnl" radius={2}>
+                  {groups.map(group => (
+                    <Cell key={group.key} fill={group.pnl >= 0 ? PROFIT_COLOR : LOSS_COLOR} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{dimensionLabels[by]}</TableHead>
+                  {columns.map(column => (
+                    <TableHead key={column.key} className="text-right">
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 hover:text-slate-900"
+                        onClick={() => toggleSort(column.key)}
+                      >
+                        {column.label}
+                        {sort?.key === column.key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(group => (
+                  <TableRow key={group.key}>
+                    <TableCell className="font-medium">{group.key}</TableCell>
+                    <TableCell className="text-right">{group.trades}</TableCell>
+                    <TableCell className="text-right">{group.winRate}%</TableCell>
+                    <TableCell className={`text-right font-semibold ${group.pnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      {formatMoney(group.pnl, breakdown.currency)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(group.expectancy, breakdown.currency)}</TableCell>
+                    <TableCell className="text-right">{group.profitFactor.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {by === "tag" && (
+              <p className="text-xs text-slate-500">Trades with several tags are counted under each tag.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
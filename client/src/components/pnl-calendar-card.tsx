@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import DayDetailsModal from "@/components/day-details-modal";
+import { formatMoney, getMoodEmoji } from "@/lib/utils";
+import type { CalendarSummary, DaySummary } from "@shared/schema";
+
+type View = "month" | "year";
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+function toDateString(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+// Pads the front of a month with nulls so the first day lands in its weekday column
+function getMonthCells(year: number, month: number, days: Map<string, DaySummary>): (DaySummary | null)[] {
+  const first = new Date(Date.UTC(year, month, 1));
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const leading = (first.getUTCDay() + 6) % 7;
+  const cells: (DaySummary | null)[] = Array(leading).fill(null);
+  for (let day = 1; day <= length; day++) {
+    const date = toDateString(year, month, day);
+    cells.push(days.get(date) || { date, trades: 0, pnl: 0, mood: null, habitCompletionRate: null });
+  }
+  return cells;
+}
+
+// Days are shaded relative to the biggest absolute day in view, with a floor so small days stay visible
+function getDayColor(day: DaySummary, maxAbsPnl: number): string | undefined {
+  if (day.trades === 0) return undefined;
+  const alpha = maxAbsPnl > 0 ? 0.15 + 0.65 * (Math.abs(day.pnl) / maxAbsPnl) : 0.15;
+  return day.pnl >= 0 ? `hsl(142 71% 45% / ${alpha})` : `hsl(0 84% 60% / ${alpha})`;
+}
+
+export default function PnlCalendarCard() {
+  const today = new Date();
+  const [view, setView] = useState<View>("month");
+  const [year, setYear] = useState(today.getFullYear());
+  const [month, setMonth] = useState(today.getMonth());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const startDate = view === "month" ? toDateString(year, month, 1) : toDateString(year, 0, 1);
+  const endDate = view === "month" ? toDateString(year, month + 1, 0) : toDateString(year, 11, 31);
+
+  const { data: calendar, isLoading } = useQuery<CalendarSummary>({
+    queryKey: ["/api/calendar", startDate, endDate],
+    queryFn: () =>
+      fetch(`/api/calendar?startDate=${startDate}&endDate=${endDate}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const days = new Map((calendar?.days || []).map(day => [day.date, day]));
+  const maxAbsPnl = Math.max(0, ...(calendar?.days || []).map(day => Math.abs(day.pnl)));
+  const totalPnl = (calendar?.days || []).reduce((sum, day) => sum + day.pnl, 0);
+
+  const step = (direction: 1 | -1) => {
+    if (view === "year") {
+      setYear(year + direction);
+      return;
+    }
+    const next = new Date(year, month + direction, 1);
+    setYear(next.getFullYear());
+    setMonth(next.getMonth());
+  };
+
+  const title = view === "month"
+    ? new Date(year, month, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" })
+    : String(year);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <CalendarDays className="mr-2 w-5 h-5" />
+            P&L Calendar
+          </span>
+          <div className="flex items-center gap-1">
+            <Button size="icon" variant="ghost" onClick={() => step(-1)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm font-medium w-32 text-center">{title}</span>
+            <Button size="icon" variant="ghost" onClick={() => step(1)}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            {(["month", "year"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={view === option ? "default" : "outline"}
+                onClick={() => setView(option)}
+              >
+                {option === "month" ? "Month" : "Year"}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !calendar ? (
+          <div className="text-center text-slate-500">Loading calendar...</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="text-sm text-slate-600">
+              Net P&L:{" "}
+              <span className={`font-semibold ${totalPnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatMoney(totalPnl, calendar.currency)}
+              </span>
+            </div>
+
+            {view === "month" ? (
+              <div className="grid grid-cols-7 gap-1">
+                {WEEKDAY_LABELS.map(label => (
+                  <div key={label} className="text-xs text-center text-slate-500">{label}</div>
+                ))}
+                {getMonthCells(year, month, days).map((day, index) =>
+                  day === null ? (
+                    <div key={`empty-${index}`} />
+                  ) : (
+                    <button
+                      key={day.date}
+                      type="button"
+                      className="min-h-[5rem] p-1 rounded border border-slate-200 text-left hover:border-slate-400 flex flex-col"
+                      style={{ backgroundColor: getDayColor(day, maxAbsPnl) }}
+                      onClick={() => setSelectedDate(day.date)}
+                    >
+                      <div className="flex justify-between text-xs">
+                        <span className="font-medium text-slate-700">{Number(day.date.slice(8))}</span>
+                        {day.mood && <span>{getMoodEmoji(day.mood)}</span>}
+                      </div>
+                      {day.trades > 0 && (
+                        <div className="mt-auto text-xs">
+                          <div className="font-semibold text-slate-900">{formatMoney(day.pnl, calendar.currency)}</div>
+                          <div className="text-slate-600">{day.trades} trade{day.trades === 1 ? "" : "s"}</div>
+                        </div>
+                      )}
+                      {day.habitCompletionRate !== null && day.habitCompletionRate > 0 && (
+                        <div className="text-[10px] text-slate-500">{day.habitCompletionRate}% habits</div>
+                      )}
+                    </button>
+                  )
+                )}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {Array.from({ length: 12 }, (_, monthIndex) => (
+                  <div key={monthIndex}>
+                    <div className="text-xs font-medium text-slate-700 mb-1">
+                      {new Date(year, monthIndex, 1).toLocaleDateString(undefined, { month: "short" })}
+                    </div>
+                    <div className="grid grid-cols-7 gap-0.5">
+                      {getMonthCells(year, monthIndex, days).map((day, index) =>
+                        day === null ? (
+                          <div key={`empty-${index}`} />
+                        ) : (
+                          <button
+                            key={day.date}
+                            type="button"
+                            className="aspect-square rounded-sm bg-slate-100 hover:ring-1 hover:ring-slate-400"
+                            style={{ backgroundColor: getDayColor(day, maxAbsPnl) }}
+                            title={`${day.date}: ${day.trades > 0 ? `${formatMoney(day.pnl, calendar.currency)}, ${day.trades} trades` : "no trades"}`}
+                            onClick={() => setSelectedDate(day.date)}
+                          />
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <DayDetailsModal date={selectedDate} onOpenChange={(open) => !open && setSelectedDate(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calculator } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/utils";
+import type { PositionSizeResult } from "@shared/schema";
+
+interface PositionSizePanelProps {
+  symbol: string;
+  entryPrice: string;
+  stopPrice: string;
+  date?: string;
+  disabled?: boolean; // quantity comes from executions
+  onApply: (quantity: string) => void;
+}
+
+export default function PositionSizePanel({ symbol, entryPrice, stopPrice, date, disabled, onApply }: PositionSizePanelProps) {
+  const [accountBalance, setAccountBalance] = useState("");
+  const [riskPercent, setRiskPercent] = useState("1");
+
+  const sizeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/position-size", {
+        symbol,
+        accountBalance: accountBalance || undefined,
+        riskPercent,
+        entryPrice,
+        stopPrice,
+        date: date || undefined,
+      });
+      return res.json() as Promise<PositionSizeResult>;
+    },
+    onSuccess: (result) => {
+      onApply(String(result.quantity));
+    },
+  });
+
+  const result = sizeMutation.data;
+  const ready = symbol.trim() && entryPrice && stopPrice && riskPercent;
+
+  return (
+    <div className="p-3 border border-slate-200 rounded-lg space-y-3">
+      <div className="flex items-center text-sm font-medium text-slate-700">
+        <Calculator className="mr-2 w-4 h-4" />
+        Position Size
+      </div>
+      <div className="grid grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="position-balance">Account balance</Label>
+          <Input id="position-balance" type="number" placeholder="From risk metrics" value={accountBalance} onChange={(e) => setAccountBalance(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="position-risk">Risk (%)</Label>
+          <Input id="position-risk" type="number" min={0} max={100} step="0.1" value={riskPercent} onChange={(e) => setRiskPercent(e.target.value)} />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!ready || disabled || sizeMutation.isPending}
+          onClick={() => sizeMutation.mutate()}
+        >
+          {sizeMutation.isPending ? "Calculating..." : "Size position"}
+        </Button>
+      </div>
+
+      {disabled ? (
+        <p className="text-xs text-slate-500">Quantity is taken from the executions below</p>
+      ) : !ready ? (
+        <p className="text-xs text-slate-500">Enter symbol, entry and planned stop to size the position</p>
+      ) : null}
+
+      {sizeMutation.error && (
+        <div className="text-sm text-red-700">{sizeMutation.error.message}</div>
+      )}
+
+      {result && (
+        <div className="text-sm text-slate-600">
+          <span className="font-semibold text-slate-900">{result.quantity} {result.unit}</span>
+          {" "}risks {formatMoney(result.actualRisk, result.currency)} of {formatMoney(result.riskAmount, result.currency)}
+          {" "}on a {formatMoney(result.accountBalance, result.currency)} balance
+          {result.balanceSource === "risk-metrics" && " (from risk metrics)"}
+          {result.balanceSource === "account-settings" && " (starting balance)"}
+          {result.quantity === 0 && ". The stop is too wide for one unit at this risk"}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity } from "lucide-react";
+import { formatMoney } from "@/lib/utils";
+import type { RollingMetrics, RollingPoint, RollingWindowUnit } from "@shared/schema";
+
+type Metric = "winRate" | "expectancy" | "profitFactor" | "avgR" | "habitCompletion";
+
+const metricLabels: Record<Metric, string> = {
+  winRate: "Win Rate",
+  expectancy: "Expectancy",
+  profitFactor: "Profit Factor",
+  avgR: "Avg R",
+  habitCompletion: "Habits",
+};
+
+export default function RollingMetricsCard() {
+  const [windowInput, setWindowInput] = useState("20");
+  const [unit, setUnit] = useState<RollingWindowUnit>("trades");
+  const [metric, setMetric] = useState<Metric>("winRate");
+
+  // The API accepts windows of 2 to 500; anything else falls back to the default
+  const parsed = parseInt(windowInput);
+  const size = parsed >= 2 && parsed <= 500 ? parsed : 20;
+
+  const { data: rolling, isLoading } = useQuery<RollingMetrics>({
+    queryKey: ["/api/analytics", "rolling", size, unit],
+    queryFn: () =>
+      fetch(`/api/analytics/rolling?window=${size}&unit=${unit}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const chartConfig = {
+    [metric]: { label: metricLabels[metric], color: "hsl(var(--primary))" },
+  } satisfies ChartConfig;
+
+  const formatValue = (value: number) => {
+    if (metric === "winRate" || metric === "habitCompletion") return `${Math.round(value)}%`;
+    if (metric === "expectancy") return formatMoney(value, rolling?.currency);
+    if (metric === "avgR") return `${value.toFixed(2)}R`;
+    return value.toFixed(2);
+  };
+
+  const points = (rolling?.points || []).map((point: RollingPoint, index) => ({
+    ...point,
+    label: unit === "trades" ? `#${index + size} · ${point.date}` : point.date,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Activity className="mr-2 w-5 h-5" />
+            Rolling Metrics
+          </span>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={2}
+              max={500}
+              className="w-20 h-8"
+              aria-label="Window size"
+              value={windowInput}
+              onChange={(e) => setWindowInput(e.target.value)}
+            />
+            {(["trades", "days"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={unit === option ? "default" : "outline"}
+                onClick={() => setUnit(option)}
+              >
+                {option === "trades" ? "Trades" : "Days"}
+              </Button>
+            ))}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(metricLabels) as Metric[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={metric === option ? "secondary" : "ghost"}
+              onClick={() => setMetric(option)}
+            >
+              {metricLabels[option]}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading rolling metrics...</div>
+        ) : points.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">
+            Not enough history for a {size}-{unit === "trades" ? "trade" : "day"} window yet
+          </div>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <LineChart data={points}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} minTickGap={24} fontSize={10} />
+              <YAxis tickLine={false} width={60} tickFormatter={formatValue} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey={metric} type="monotone" stroke={`var(--color-${metric})`} strokeWidth={2} dot={false} connectNulls={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Flame } from "lucide-react";
+import type { StreakStats, TiltEvent, TiltEventKind } from "@shared/schema";
+
+const chartConfig = {
+  wins: { label: "Win streaks", color: "hsl(142 71% 45%)" },
+  losses: { label: "Loss streaks", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+const kindLabels: Record<TiltEventKind, string> = {
+  revenge: "Revenge trade",
+  size: "Size jump",
+  overtrading: "Overtrading",
+  emotion: "Emotion",
+};
+
+// Older events are still queryable through the API; the card shows the latest
+const VISIBLE_EVENTS = 20;
+
+export default function StreaksCard() {
+  const [kind, setKind] = useState<TiltEventKind | "all">("all");
+
+  const { data: streaks, isLoading } = useQuery<StreakStats>({
+    queryKey: ["/api/analytics", "streaks"],
+    queryFn: () =>
+      fetch("/api/analytics/streaks", {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  const { data: events = [] } = useQuery<TiltEvent[]>({
+    queryKey: ["/api/analytics", "tilt-events", kind],
+    queryFn: () =>
+      fetch(`/api/analytics/tilt-events${kind === "all" ? "" : `?kind=${kind}`}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Flame className="mr-2 w-5 h-5" />
+          Streaks & Tilt
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading streaks...</div>
+        ) : !streaks || streaks.distribution.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">No closed trades yet</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className={`text-lg font-bold ${streaks.current.type === "loss" ? "text-red-600" : "text-green-600"}`}>
+                  {streaks.current.type ? `${streaks.current.length} ${streaks.current.type === "win" ? "W" : "L"}` : "—"}
+                </div>
+                <div className="text-sm text-slate-600">Current</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-green-600">{streaks.longestWin}</div>
+                <div className="text-sm text-slate-600">Longest Win</div>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-lg font-bold text-red-600">{streaks.longestLoss}</div>
+                <div className="text-sm text-slate-600">Longest Loss</div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-40 w-full aspect-auto">
+              <BarChart data={streaks.distribution}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="length" tickLine={false} />
+                <YAxis tickLine={false} allowDecimals={false} width={30} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="wins" fill="var(--color-wins)" radius={2} />
+                <Bar dataKey="losses" fill="var(--color-losses)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h5 className="text-sm font-medium text-slate-700">Tilt events</h5>
+                <Select value={kind} onValueChange={(value) => setKind(value as TiltEventKind | "all")}>
+                  <SelectTrigger className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All events</SelectItem>
+                    {(Object.keys(kindLabels) as TiltEventKind[]).map(option => (
+                      <SelectItem key={option} value={option}>{kindLabels[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {events.length === 0 ? (
+                <div className="text-sm text-slate-500">No tilt detected</div>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {events.slice(0, VISIBLE_EVENTS).map((event, index) => (
+                    <li key={`${event.kind}-${event.tradeId ?? event.date}-${index}`} className="flex items-center gap-2">
+                      <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">{kindLabels[event.kind]}</Badge>
+                      <span className="text-slate-500">{event.date}{event.symbol && ` · ${event.symbol}`}</span>
+                      <span className="text-slate-800">{event.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { getWeekDates } from "@/lib/utils";
+import type { TiltEvent } from "@shared/schema";
+
+const VISIBLE_WARNINGS = 3;
+
+export default function TiltWarnings() {
+  const { startOfWeek, endOfWeek } = getWeekDates(new Date());
+
+  const { data: events = [] } = useQuery<TiltEvent[]>({
+    queryKey: ["/api/analytics", "tilt-events", startOfWeek, endOfWeek],
+    queryFn: () =>
+      fetch(`/api/analytics/tilt-events?startDate=${startOfWeek}&endDate=${endOfWeek}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  if (events.length === 0) return null;
+
+  return (
+    <Alert className="mb-8 border-amber-200 bg-amber-50 text-amber-900">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Possible tilt this week</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-0.5 text-sm">
+          {events.slice(0, VISIBLE_WARNINGS).map((event, index) => (
+            <li key={`${event.kind}-${event.tradeId ?? event.date}-${index}`}>
+              {event.date}{event.symbol && ` · ${event.symbol}`}: {event.detail}
+            </li>
+          ))}
+        </ul>
+        {events.length > VISIBLE_WARNINGS && (
+          <p className="mt-1 text-xs">…and {events.length - VISIBLE_WARNINGS} more in Analytics</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Clock } from "lucide-react";
+import { formatMoney, getWeekDates } from "@/lib/utils";
+import type { TimingAnalytics } from "@shared/schema";
+
+const chartConfig = {
+  pnl: { label: "P&L" },
+  trades: { label: "Trades", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const PROFIT_COLOR = "hsl(142 71% 45%)";
+const LOSS_COLOR = "hsl(0 84% 60%)";
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  if (minutes < 1440) return `${(minutes / 60).toFixed(1)}h`;
+  return `${(minutes / 1440).toFixed(1)}d`;
+}
+
+export default function TimingAnalyticsCard() {
+  const { startOfWeek, endOfWeek } = getWeekDates(new Date());
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const { data: analytics, isLoading } = useQuery<TimingAnalytics>({
+    queryKey: ["/api/analytics", "timing", startOfWeek, endOfWeek, timezone],
+    queryFn: () =>
+      fetch(`/api/analytics/timing?startDate=${startOfWeek}&endDate=${endOfWeek}&timezone=${encodeURIComponent(timezone)}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  // Hours without trades only add noise to the chart
+  const activeHours = analytics?.byHour.filter(hour => hour.trades > 0) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Clock className="mr-2 w-5 h-5" />
+          Timing
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading timing...</div>
+        ) : !analytics || analytics.tradesWithTimes === 0 ? (
+          <div className="text-center text-slate-500 py-4">
+            Add entry and exit times to your trades to see timing analytics
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {analytics.avgHoldingMinutes !== null && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600">Holding time (avg / median):</span>
+                <span className="font-semibold">
+                  {formatDuration(analytics.avgHoldingMinutes)} / {formatDuration(analytics.medianHoldingMinutes!)}
+                </span>
+              </div>
+            )}
+
+            <div>
+              <h5 className="text-sm font-medium text-slate-700 mb-2">P&L by hour of entry ({analytics.timezone})</h5>
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <BarChart data={activeHours}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="hour" tickLine={false} tickFormatter={(hour) => `${hour}:00`} />
+                  <YAxis tickLine={false} width={60} tickFormatter={(value) => formatMoney(value, analytics.currency)} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="pnl" radius={2}>
+                    {activeHours.map(hour => (
+                      <Cell key={hour.hour} fill={hour.pnl >= 0 ? PROFIT_COLOR : LOSS_COLOR} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div>
+              <h5 className="text-sm font-medium text-slate-700 mb-2">Holding time</h5>
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <BarChart data={analytics.holdingTime}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} interval={0} fontSize={10} />
+                  <YAxis yAxisId="trades" tickLine={false} allowDecimals={false} width={30} />
+                  <YAxis yAxisId="pnl" orientation="right" tickLine={false} width={60} tickFormatter={(value) => formatMoney(value, analytics.currency)} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar yAxisId="trades" dataKey="trades" fill="var(--color-trades)" radius={2} />
+                  <Bar yAxisId="pnl" dataKey="pnl" radius={2}>
+                    {analytics.holdingTime.map(bucket => (
+                      <Cell key={bucket.label} fill={bucket.pnl >= 0 ? PROFIT_COLOR : LOSS_COLOR} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
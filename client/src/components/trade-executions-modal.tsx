@@ -0,0 +1,78 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import ExecutionsEditor, { completeExecutionDrafts, toExecutionDraft, type ExecutionDraft } from "@/components/executions-editor";
+import { queryClient, apiRequest, invalidateTradeQueries } from "@/lib/queryClient";
+import { getInstrumentPointValue } from "@/lib/utils";
+import { summarizeExecutions } from "@shared/trade-math";
+import type { Instrument, TradeExecution, TradeReview } from "@shared/schema";
+
+interface TradeExecutionsModalProps {
+  trade: TradeReview | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function TradeExecutionsModal({ trade, onOpenChange }: TradeExecutionsModalProps) {
+  const [executions, setExecutions] = useState<ExecutionDraft[]>([]);
+
+  const { data: instruments = [] } = useQuery<Instrument[]>({
+    queryKey: ["/api/instruments"],
+  });
+
+  const { data: saved } = useQuery<TradeExecution[]>({
+    queryKey: ["/api/trades", trade?.id, "executions"],
+    queryFn: () =>
+      fetch(`/api/trades/${trade!.id}/executions`, {
+        credentials: "include",
+      }).then(res => res.json()),
+    enabled: !!trade,
+  });
+
+  useEffect(() => {
+    setExecutions((saved || []).map(toExecutionDraft));
+  }, [saved]);
+
+  const completeExecutions = completeExecutionDrafts(executions);
+  const pointValue = trade ? getInstrumentPointValue(instruments, trade.symbol) : null;
+  const summary = summarizeExecutions(completeExecutions, trade?.side, pointValue ?? 1);
+  const preview = summary && (pointValue !== null ? summary : { ...summary, pnl: null });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest("PUT", `/api/trades/${trade!.id}/executions`, completeExecutions),
+    onSuccess: () => {
+      invalidateTradeQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/trades", trade!.id, "executions"] });
+      onOpenChange(false);
+    },
+  });
+
+  return (
+    <Dialog open={!!trade} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{trade ? `${trade.symbol} fills · ${trade.date}` : "Fills"}</DialogTitle>
+        </DialogHeader>
+
+        {trade && (
+          <div className="space-y-4">
+            <ExecutionsEditor executions={executions} onChange={setExecutions} side={trade.side} summary={preview} />
+
+            {saveMutation.isError && (
+              <p className="text-sm text-red-600">Failed to save fills</p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Fills"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
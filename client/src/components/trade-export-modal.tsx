@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+
+interface TradeExportModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ExportFormat = "csv" | "json" | "xlsx";
+
+export default function TradeExportModal({ open, onOpenChange }: TradeExportModalProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [filters, setFilters] = useState({
+    startDate: "",
+    endDate: "",
+    symbol: "",
+    setup: "",
+    tag: "",
+  });
+
+  const setFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+  };
+
+  const handleDownload = () => {
+    const params = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value.trim()) params.set(key, value.trim());
+    }
+
+    // The server sends Content-Disposition: attachment, so this downloads without navigating away
+    const link = document.createElement("a");
+    link.href = `/api/trades/export?${params.toString()}`;
+    link.click();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Trades</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-start">From</Label>
+              <Input
+                id="export-start"
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => setFilter("startDate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-end">To</Label>
+              <Input
+                id="export-end"
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => setFilter("endDate", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-symbol">Symbol</Label>
+              <Input
+                id="export-symbol"
+                placeholder="Any"
+                value={filters.symbol}
+                onChange={(e) => setFilter("symbol", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-setup">Setup</Label>
+              <Input
+                id="export-setup"
+                placeholder="Any"
+                value={filters.setup}
+                onChange={(e) => setFilter("setup", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-tag">Tag</Label>
+              <Input
+                id="export-tag"
+                placeholder="Any"
+                value={filters.tag}
+                onChange={(e) => setFilter("tag", e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex space-x-3 pt-2">
+            <Button type="button" variant="outline" className="flex-1" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="button" className="flex-1" onClick={handleDownload}>
+              <Download className="mr-2 w-4 h-4" />
+              Download
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -7,59 +7,130 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
 import { Star } from "lucide-react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import PositionSizePanel from "@/components/position-size-panel";
+import ExecutionsEditor, { completeExecutionDrafts, type ExecutionDraft } from "@/components/executions-editor";
+import { queryClient, apiRequest, invalidateTradeQueries } from "@/lib/queryClient";
+import { formatLocalDate, getInstrumentPointValue, toDateTimeLocal } from "@/lib/utils";
 import { insertTradeReviewSchema } from "@shared/schema";
-import type { InsertTradeReview } from "@shared/schema";
+import { computeRewardRisk, summarizeExecutions } from "@shared/trade-math";
+import type { InsertTradeReview, Instrument, TradeReview } from "@shared/schema";
 
 interface TradeReviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+// The body is JSON from our routes, but a proxy in between may answer with plain text
+function parseErrorMessage(body: string): string {
+  try {
+    return (JSON.parse(body) as { message?: string }).message || body;
+  } catch {
+    return body;
+  }
+}
+
 export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModalProps) {
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedMistakes, setSelectedMistakes] = useState<string[]>([]);
   const [rating, setRating] = useState(0);
+  const [executions, setExecutions] = useState<ExecutionDraft[]>([]);
+  const [overrideReason, setOverrideReason] = useState("");
+  const { toast } = useToast();
+
+  const { data: instruments = [] } = useQuery<Instrument[]>({
+    queryKey: ["/api/instruments"],
+  });
 
   const form = useForm<InsertTradeReview>({
     resolver: zodResolver(insertTradeReviewSchema),
     defaultValues: {
-      date: new Date().toISOString().split('T')[0],
+      date: formatLocalDate(),
+      entryTime: null,
+      exitTime: null,
       symbol: "",
       side: "long",
       entryPrice: "",
       exitPrice: "",
       quantity: "",
       pnl: "",
+      commission: "",
+      swap: "",
+      fees: "",
+      currency: "",
+      plannedStop: "",
+      plannedTarget: "",
+      initialRisk: "",
       emotionalState: "calm",
       setup: "",
       lessons: "",
     },
   });
 
+  const side = form.watch("side");
+  const [entryPrice, plannedStop, plannedTarget] = form.watch(["entryPrice", "plannedStop", "plannedTarget"]);
+  const rewardRisk = computeRewardRisk({ side, entryPrice, plannedStop, plannedTarget });
+  const completeExecutions = completeExecutionDrafts(executions);
+  // Without a configured instrument the P&L is left for the server, which knows the default contract specs
+  const pointValue = getInstrumentPointValue(instruments, form.watch("symbol"));
+  const summary = summarizeExecutions(completeExecutions, side, pointValue ?? 1);
+  const executionSummary = summary && (pointValue !== null ? summary : { ...summary, pnl: null });
+
+  // With fills entered, the averages, size and P&L are derived rather than typed
+  useEffect(() => {
+    if (!executionSummary) return;
+    form.setValue("date", formatLocalDate(executionSummary.entryTime));
+    form.setValue("entryTime", executionSummary.entryTime);
+    form.setValue("exitTime", executionSummary.exitTime);
+    form.setValue("entryPrice", executionSummary.entryPrice);
+    form.setValue("exitPrice", executionSummary.exitPrice || "");
+    form.setValue("quantity", executionSummary.quantity);
+    form.setValue("pnl", executionSummary.pnl || "");
+    form.setValue("fees", executionSummary.fees);
+  }, [executionSummary?.date, executionSummary?.entryTime.getTime(), executionSummary?.exitTime?.getTime(), executionSummary?.entryPrice, executionSummary?.exitPrice, executionSummary?.quantity, executionSummary?.pnl, executionSummary?.fees]);
+
   const addTradeMutation = useMutation({
-    mutationFn: (trade: InsertTradeReview) => 
-      apiRequest("POST", "/api/trades", trade),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/trading-stats"] });
+    mutationFn: async (trade: InsertTradeReview & { executions?: typeof completeExecutions; overrideReason?: string }) => {
+      const res = await apiRequest("POST", "/api/trades", trade);
+      return await res.json() as TradeReview & { warning?: string };
+    },
+    onSuccess: (saved, trade) => {
+      invalidateTradeQueries();
+      // In warn mode a breached daily limit still saves the trade, with a warning
+      if (saved.warning) {
+        toast({ title: "Trade saved", description: saved.warning, variant: "destructive" });
+      }
+      if (trade.overrideReason) {
+        queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      }
       onOpenChange(false);
+      setOverrideReason("");
       form.reset();
       setSelectedTags([]);
       setSelectedMistakes([]);
       setRating(0);
+      setExecutions([]);
     },
   });
 
+  // apiRequest errors read "<status>: <body>"; a 409 means the trade's day is locked by a daily limit
+  const lockMessage = addTradeMutation.error?.message.startsWith("409: ")
+    ? parseErrorMessage(addTradeMutation.error.message.slice(5))
+    : null;
+
   const onSubmit = (data: InsertTradeReview) => {
     const tradeData = {
       ...data,
       tags: selectedTags.length > 0 ? selectedTags : null,
       mistakes: selectedMistakes.length > 0 ? selectedMistakes : null,
       rating: rating > 0 ? rating : null,
+      executions: completeExecutions.length > 0 ? completeExecutions : undefined,
+      // With fills the server derives P&L from them rather than taking the preview
+      pnl: completeExecutions.length > 0 ? undefined : data.pnl,
+      overrideReason: overrideReason.trim() || undefined,
     };
     addTradeMutation.mutate(tradeData);
   };
@@ -96,6 +167,51 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
         
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="entryTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Entry Time</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        readOnly={!!executionSummary}
+                        value={toDateTimeLocal(field.value)}
+                        onChange={(e) => {
+                          const entryTime = e.target.value ? new Date(e.target.value) : null;
+                          field.onChange(entryTime);
+                          // The trade date follows the entry time, in local time
+                          if (entryTime) form.setValue("date", e.target.value.slice(0, 10));
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="exitTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Exit Time</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        readOnly={!!executionSummary}
+                        value={toDateTimeLocal(field.value)}
+                        onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -118,8 +234,15 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
                   <FormItem>
                     <FormLabel>Symbol</FormLabel>
                     <FormControl>
-                      <Input placeholder="e.g., AAPL, EURUSD" {...field} />
+                      <Input placeholder="e.g., AAPL, EURUSD" list="instrument-symbols" autoComplete="off" {...field} />
                     </FormControl>
+                    <datalist id="instrument-symbols">
+                      {instruments.map(instrument => (
+                        <option key={instrument.id} value={instrument.symbol}>
+                          {[instrument.assetClass, ...(instrument.aliases || [])].join(" · ")}
+                        </option>
+                      ))}
+                    </datalist>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -156,7 +279,7 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
                   <FormItem>
                     <FormLabel>Quantity</FormLabel>
                     <FormControl>
-                      <Input placeholder="100" {...field} />
+                      <Input placeholder="100" readOnly={!!executionSummary} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -172,7 +295,7 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
                   <FormItem>
                     <FormLabel>Entry Price</FormLabel>
                     <FormControl>
-                      <Input placeholder="150.00" {...field} />
+                      <Input placeholder="150.00" readOnly={!!executionSummary} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -186,7 +309,7 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
                   <FormItem>
                     <FormLabel>Exit Price</FormLabel>
                     <FormControl>
-                      <Input placeholder="155.00" {...field} />
+                      <Input placeholder="155.00" readOnly={!!executionSummary} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -200,14 +323,147 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
                   <FormItem>
                     <FormLabel>P&L</FormLabel>
                     <FormControl>
-                      <Input placeholder="500.00" {...field} />
+                      <Input placeholder="Auto" readOnly={!!executionSummary} {...field} />
                     </FormControl>
+                    <FormDescription>
+                      {executionSummary ? "Calculated from the fills when saved" : "Leave blank to calculate from prices"}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
 
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="plannedStop"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Planned Stop</FormLabel>
+                    <FormControl>
+                      <Input placeholder="148.00" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="plannedTarget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Planned Target</FormLabel>
+                    <FormControl>
+                      <Input placeholder="156.00" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>
+                      {rewardRisk !== null
+                        ? `Planned R:R 1:${rewardRisk.toFixed(2)}`
+                        : plannedStop && plannedTarget
+                          ? "Stop and target must be on opposite sides of entry"
+                          : "Enter stop and target for R:R"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="initialRisk"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Initial Risk</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Auto" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Leave blank to calculate from the stop</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <PositionSizePanel
+              symbol={form.watch("symbol")}
+              entryPrice={entryPrice}
+              stopPrice={plannedStop ?? ""}
+              date={form.watch("date")}
+              disabled={!!executionSummary}
+              onApply={(quantity) => form.setValue("quantity", quantity, { shouldValidate: true })}
+            />
+
+            <div className="grid grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="commission"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Commission</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="swap"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Swap</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>Negative when charged</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="fees"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Other Fees</FormLabel>
+                    <FormControl>
+                      <Input placeholder="0.00" readOnly={!!executionSummary} {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Auto"
+                        maxLength={3}
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormDescription>Defaults to the quote currency</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Fills */}
+            <ExecutionsEditor executions={executions} onChange={setExecutions} side={side} summary={executionSummary} />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -319,6 +575,18 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
               )}
             />
             
+            {lockMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+                <p className="text-sm text-red-700">{lockMessage}</p>
+                <Textarea
+                  placeholder="Why are you taking this trade anyway? This is saved to the day's journal."
+                  rows={2}
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                />
+              </div>
+            )}
+            
             <div className="flex space-x-3 pt-4">
               <Button 
                 type="button" 
@@ -331,9 +599,10 @@ export default function TradeReviewModal({ open, onOpenChange }: TradeReviewModa
               <Button 
                 type="submit" 
                 className="flex-1"
-                disabled={addTradeMutation.isPending}
+                variant={lockMessage ? "destructive" : "default"}
+                disabled={addTradeMutation.isPending || (!!lockMessage && !overrideReason.trim())}
               >
-                Add Trade
+                {lockMessage ? "Override and Add Trade" : "Add Trade"}
               </Button>
             </div>
           </form>
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { List, AlertTriangle, Layers } from "lucide-react";
+import TradeExecutionsModal from "@/components/trade-executions-modal";
+import { formatMoney, getWeekDates } from "@/lib/utils";
+import type { TradeReview } from "@shared/schema";
+
+interface TradesListProps {
+  title?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export default function TradesList({ title = "This Week's Trades", startDate, endDate }: TradesListProps) {
+  const { startOfWeek, endOfWeek } = getWeekDates(new Date());
+  const from = startDate || startOfWeek;
+  const to = endDate || endOfWeek;
+  const [fillsTrade, setFillsTrade] = useState<TradeReview | null>(null);
+
+  const { data: trades = [], isLoading } = useQuery<TradeReview[]>({
+    queryKey: ["/api/trades", from, to],
+    queryFn: () =>
+      fetch(`/api/trades?startDate=${from}&endDate=${to}`, {
+        credentials: "include",
+      }).then(res => res.json())
+  });
+
+  // Amounts are shown in the trade's own currency, not converted to base
+  const formatPnl = (pnl: string | null, currency: string | null) => {
+    if (!pnl) return "—";
+    return formatMoney(parseFloat(pnl), currency || undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <List className="mr-2 w-5 h-5" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center text-slate-500">Loading trades...</div>
+        ) : trades.length === 0 ? (
+          <div className="text-center text-slate-500 py-4">No trades in this period</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Symbol</TableHead>
+                <TableHead>Side</TableHead>
+                <TableHead>Qty</TableHead>
+                <TableHead>Entry → Exit</TableHead>
+                <TableHead className="text-right">P&L</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trades.map(trade => {
+                const pnl = trade.pnl ? parseFloat(trade.pnl) : 0;
+                return (
+                  <TableRow key={trade.id}>
+                    <TableCell>{trade.date}</TableCell>
+                    <TableCell className="font-medium">{trade.symbol}</TableCell>
+                    <TableCell className="capitalize">{trade.side}</TableCell>
+                    <TableCell>{trade.quantity}</TableCell>
+                    <TableCell>{trade.entryPrice} → {trade.exitPrice || "open"}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        {trade.pnlOverride && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Manual
+                              </Badge>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              Entered P&L differs from the computed {formatPnl(trade.pnlComputed, trade.currency)}
+                            </TooltipContent>
+                          </Tooltip>
+                        )}
+                        <span className={`font-semibold ${pnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                          {formatPnl(trade.pnl, trade.currency)}
+                        </span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" title="Edit fills" onClick={() => setFillsTrade(trade)}>
+                        <Layers className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <TradeExecutionsModal trade={fillsTrade} onOpenChange={(open) => !open && setFillsTrade(null)} />
+    </Card>
+  );
+}
@@ -1,17 +1,41 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { TrendingUp, TrendingDown, BarChart3, Target } from "lucide-react";
-import { getWeekDates } from "@/lib/utils";
+import { formatMoney, getWeekDates } from "@/lib/utils";
+import type { AdvancedMetrics, PnlBasis, TradingStats } from "@shared/schema";
+
+type MetricDefinition = {
+  key: Exclude<keyof AdvancedMetrics, "tradingDays">;
+  label: string;
+  description: string;
+  money?: boolean;
+};
+
+const ADVANCED_METRICS: MetricDefinition[] = [
+  { key: "expectancy", label: "Expectancy", money: true, description: "Average P&L per trade. Positive means the strategy makes money on average." },
+  { key: "payoffRatio", label: "Payoff Ratio", description: "Average win divided by average loss. Above 1 means winners are bigger than losers." },
+  { key: "stdDev", label: "Std Dev", money: true, description: "Standard deviation of trade P&L: how much individual results vary around the average." },
+  { key: "sqn", label: "SQN", description: "System Quality Number: expectancy divided by the standard deviation, scaled by the square root of the trade count (capped at 100). Above 2 is good, above 3 excellent." },
+  { key: "sharpe", label: "Sharpe", description: "Annualized average daily P&L divided by its standard deviation. Rewards steady returns; penalizes volatility in both directions." },
+  { key: "sortino", label: "Sortino", description: "Like Sharpe, but only losing days count as volatility, so large winning days are not penalized." },
+  { key: "kelly", label: "Kelly", description: "Fraction of capital the Kelly criterion would risk per trade given this win rate and payoff ratio. Most traders use a fraction of it; negative means no edge." },
+  { key: "largestWin", label: "Largest Win", money: true, description: "Best single trade." },
+  { key: "largestLoss", label: "Largest Loss", money: true, description: "Worst single trade." },
+];
 
 export default function TradingStatsCard() {
   const currentDate = new Date();
   const { startOfWeek, endOfWeek } = getWeekDates(currentDate);
+  const [basis, setBasis] = useState<PnlBasis>("gross");
 
-  const { data: tradingStats, isLoading } = useQuery({
-    queryKey: ["/api/trading-stats"],
+  const { data: tradingStats, isLoading } = useQuery<TradingStats>({
+    queryKey: ["/api/trading-stats", basis],
     queryFn: () =>
-      fetch(`/api/trading-stats?startDate=${startOfWeek}&endDate=${endOfWeek}`, {
+      fetch(`/api/trading-stats?startDate=${startOfWeek}&endDate=${endOfWeek}&basis=${basis}`, {
         credentials: "include",
       }).then(res => res.json())
   });
@@ -52,12 +76,28 @@ export default function TradingStatsCard() {
     );
   }
 
-  const { totalTrades, winRate, totalPnL, avgWin, avgLoss, profitFactor, emotionalStates } = tradingStats;
+  const {
+    currency, unconvertedTrades, totalTrades, winRate, totalPnL, grossPnL, netPnL, totalCommission, totalSwap, totalFees,
+    avgWin, avgLoss, profitFactor, emotionalStates, instruments, advanced,
+    tradesWithRisk, avgR, expectancyR, rDistribution,
+  } = tradingStats;
+  const maxBucketCount = Math.max(...rDistribution.map(bucket => bucket.count), 1);
   
   const isProfitable = totalPnL > 0;
   const topEmotion = Object.keys(emotionalStates).length > 0 
     ? Object.entries(emotionalStates).sort(([,a], [,b]) => b - a)[0] 
     : null;
+  const topInstruments = Object.entries(instruments)
+    .sort(([, a], [, b]) => b.trades - a.trades)
+    .slice(0, 3);
+
+  const formatMetric = (metric: MetricDefinition) => {
+    const value = advanced[metric.key];
+    if (value === null) return "—";
+    if (metric.money) return formatMoney(value, currency);
+    if (metric.key === "kelly") return `${(value * 100).toFixed(1)}%`;
+    return value.toFixed(2);
+  };
 
   const getEmotionColor = (emotion: string) => {
     switch (emotion) {
@@ -73,9 +113,23 @@ export default function TradingStatsCard() {
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center">
-          <BarChart3 className="mr-2 w-5 h-5" />
-          Weekly Trading Stats
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <BarChart3 className="mr-2 w-5 h-5" />
+            Weekly Trading Stats
+          </span>
+          <div className="flex gap-1">
+            {(["gross", "net"] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={basis === option ? "default" : "outline"}
+                onClick={() => setBasis(option)}
+              >
+                {option === "gross" ? "Gross" : "Net"}
+              </Button>
+            ))}
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -98,9 +152,9 @@ export default function TradingStatsCard() {
           <div className="text-center p-3 bg-slate-50 rounded-lg">
             <div className={`text-2xl font-bold flex items-center justify-center ${isProfitable ? "text-green-600" : "text-red-600"}`}>
               {isProfitable ? <TrendingUp className="w-5 h-5 mr-1" /> : <TrendingDown className="w-5 h-5 mr-1" />}
-              ${Math.abs(totalPnL).toFixed(2)}
+              {formatMoney(Math.abs(totalPnL), currency)}
             </div>
-            <div className="text-sm text-slate-600">Total P&L</div>
+            <div className="text-sm text-slate-600">{basis === "gross" ? "Gross" : "Net"} P&L</div>
           </div>
 
           {/* Profit Factor */}
@@ -114,15 +168,85 @@ export default function TradingStatsCard() {
 
         {/* Additional Stats */}
         <div className="mt-4 space-y-3">
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-600">Gross / Net:</span>
+            <span className="font-semibold">{formatMoney(grossPnL, currency)} / {formatMoney(netPnL, currency)}</span>
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-slate-600">Costs:</span>
+            <span className="text-slate-700">
+              Comm {formatMoney(totalCommission, currency)} · Swap {formatMoney(totalSwap, currency)} · Fees {formatMoney(totalFees, currency)}
+            </span>
+          </div>
           <div className="flex justify-between items-center text-sm">
             <span className="text-slate-600">Avg Win:</span>
-            <span className="font-semibold text-green-600">${avgWin.toFixed(2)}</span>
+            <span className="font-semibold text-green-600">{formatMoney(avgWin, currency)}</span>
           </div>
           <div className="flex justify-between items-center text-sm">
             <span className="text-slate-600">Avg Loss:</span>
-            <span className="font-semibold text-red-600">${avgLoss.toFixed(2)}</span>
+            <span className="font-semibold text-red-600">{formatMoney(avgLoss, currency)}</span>
           </div>
           
+          <div className="pt-2 border-t border-slate-100">
+            <div className="grid grid-cols-3 gap-2">
+              {ADVANCED_METRICS.map(metric => (
+                <Tooltip key={metric.key}>
+                  <TooltipTrigger asChild>
+                    <div className="p-2 bg-slate-50 rounded text-center cursor-help">
+                      <div className="text-sm font-semibold text-slate-900">{formatMetric(metric)}</div>
+                      <div className="text-xs text-slate-600">{metric.label}</div>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs">{metric.description}</TooltipContent>
+                </Tooltip>
+              ))}
+            </div>
+            {advanced.tradingDays < 2 && (
+              <p className="mt-2 text-xs text-slate-500">Sharpe and Sortino need at least two trading days</p>
+            )}
+          </div>
+
+          {tradesWithRisk > 0 && (
+            <div className="pt-2 border-t border-slate-100 space-y-2">
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-slate-600">Avg R / Expectancy ({tradesWithRisk}):</span>
+                <span className={`font-semibold ${(expectancyR || 0) >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {avgR?.toFixed(2)}R / {expectancyR?.toFixed(2)}R
+                </span>
+              </div>
+              <div className="flex items-end gap-1 h-16">
+                {rDistribution.map(bucket => (
+                  <div key={bucket.label} className="flex-1 flex flex-col items-center justify-end h-full" title={`${bucket.label}: ${bucket.count}`}>
+                    <div
+                      className={`w-full rounded-t ${bucket.to !== null && bucket.to <= 0 ? "bg-red-300" : "bg-green-300"}`}
+                      style={{ height: `${(bucket.count / maxBucketCount) * 100}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1 text-[10px] text-slate-500">
+                {rDistribution.map(bucket => (
+                  <span key={bucket.label} className="flex-1 text-center truncate">{bucket.label}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {topInstruments.map(([symbol, instrument]) => (
+            <div key={symbol} className="flex justify-between items-center text-sm">
+              <span className="text-slate-600">{symbol} ({instrument.trades}):</span>
+              <span className={`font-semibold ${instrument.pnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatMoney(instrument.pnl, currency)}
+              </span>
+            </div>
+          ))}
+
+          {unconvertedTrades > 0 && (
+            <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-700">
+              {unconvertedTrades} trade{unconvertedTrades === 1 ? "" : "s"} left out: no FX rate into {currency} for the trade date
+            </div>
+          )}
+
           {topEmotion && (
             <div className="flex justify-between items-center text-sm">
               <span className="text-slate-600">Most Common State:</span>
@@ -55,3 +55,13 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Every query derived from trades, including habits ticked by rules; call after trades, rates or account settings change
+export function invalidateTradeQueries() {
+  for (const key of [
+    "/api/trades", "/api/trading-stats", "/api/analytics", "/api/equity-curve", "/api/calendar", "/api/daily-limits", "/api/risk-metrics",
+    "/api/challenges", "/api/habits-with-stats", "/api/weekly-progress", "/api/monthly-stats",
+  ]) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
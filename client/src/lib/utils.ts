@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { Instrument } from "@shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -9,6 +10,12 @@ export function formatToday(): string {
   return new Date().toISOString().split('T')[0];
 }
 
+// The trader's calendar day, which is what trades are dated by and daily limits count
+export function formatLocalDate(date = new Date()): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
 export function getWeekDates(date: Date): { startOfWeek: string; endOfWeek: string } {
   const d = new Date(date);
   const day = d.getDay();
@@ -24,6 +31,35 @@ export function getWeekDates(date: Date): { startOfWeek: string; endOfWeek: stri
   };
 }
 
+// Value for <input type="datetime-local">, which takes local time without an offset
+export function toDateTimeLocal(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+// Point value of the configured instrument for a symbol, matched the way the
+// server matches aliases. Null when none is set up; the server then falls back
+// to its built-in contract specs, which the client doesn't have.
+export function getInstrumentPointValue(instruments: Instrument[], symbol: string): number | null {
+  const normalize = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const target = normalize(symbol);
+  const instrument = instruments.find(i => [i.symbol, ...(i.aliases || [])].some(name => normalize(name) === target));
+  if (!instrument) return null;
+
+  const tickSize = parseFloat(instrument.tickSize || "");
+  const tickValue = parseFloat(instrument.tickValue || "");
+  if (tickSize && !isNaN(tickValue)) return tickValue / tickSize;
+  const contractSize = parseFloat(instrument.contractSize || "");
+  return contractSize || null;
+}
+
+export function formatMoney(value: number, currency = "USD"): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(value);
+}
+
 export function getMoodEmoji(mood: string): string {
   const moodMap: Record<string, string> = {
     excellent: "😊",
@@ -34,3 +70,24 @@ export function getMoodEmoji(mood: string): string {
   };
   return moodMap[mood] || "😐";
 }
+
+export function describeHabitRule(ruleType: string, ruleValue: string | null): string {
+  switch (ruleType) {
+    case "maxTradesPerDay": return `Auto: at most ${ruleValue} trades a day`;
+    case "noMistake": return `Auto: no trade marked "${ruleValue}"`;
+    case "noTag": return `Auto: no trade tagged "${ruleValue}"`;
+    case "journalWritten": return "Auto: journal entry written";
+    default: return "Auto";
+  }
+}
+
+// Broker reports (notably MT5) are often UTF-16 encoded, so sniff the BOM
+// instead of relying on File.text(), which always assumes UTF-8.
+export async function readFileAsText(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  let encoding = "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = "utf-16le";
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = "utf-16be";
+  return new TextDecoder(encoding).decode(buffer);
+}
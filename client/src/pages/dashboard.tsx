@@ -6,18 +6,40 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ChartLine, Heart, Plus, Pen, Flame, Check, BarChart3, Target, TrendingUp } from "lucide-react";
+import { ChartLine, Heart, Plus, Pen, Flame, Check, BarChart3, Target, TrendingUp, FileUp, FileSpreadsheet, Download, Settings } from "lucide-react";
 import HabitCard from "@/components/habit-card";
 import AddHabitModal from "@/components/add-habit-modal";
 import TradeReviewModal from "@/components/trade-review-modal";
+import Mt5ImportModal from "@/components/mt5-import-modal";
+import CsvImportModal from "@/components/csv-import-modal";
+import TradeExportModal from "@/components/trade-export-modal";
+import AccountSettingsModal from "@/components/account-settings-modal";
 import TradingStatsCard from "@/components/trading-stats-card";
+import TradesList from "@/components/trades-list";
+import TimingAnalyticsCard from "@/components/timing-analytics-card";
+import EquityCurveCard from "@/components/equity-curve-card";
+import PerformanceBreakdownCard from "@/components/performance-breakdown-card";
+import EmotionAnalyticsCard from "@/components/emotion-analytics-card";
+import HabitCorrelationCard from "@/components/habit-correlation-card";
+import MistakesReportCard from "@/components/mistakes-report-card";
+import PnlCalendarCard from "@/components/pnl-calendar-card";
+import MonteCarloCard from "@/components/monte-carlo-card";
+import StreaksCard from "@/components/streaks-card";
+import RollingMetricsCard from "@/components/rolling-metrics-card";
+import TiltWarnings from "@/components/tilt-warnings";
+import DailyLockBanner from "@/components/daily-lock-banner";
 import GoalsTracker from "@/components/goals-tracker";
+import ChallengesCard from "@/components/challenges-card";
 import { formatToday, getWeekDates, getMoodEmoji } from "@/lib/utils";
 import type { HabitWithStats, EmotionalCheckIn, JournalEntry } from "@shared/schema";
 
 export default function Dashboard() {
   const [showAddHabitModal, setShowAddHabitModal] = useState(false);
   const [showTradeModal, setShowTradeModal] = useState(false);
+  const [showMt5ImportModal, setShowMt5ImportModal] = useState(false);
+  const [showCsvImportModal, setShowCsvImportModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [selectedMood, setSelectedMood] = useState<string | null>(null);
   const [journalContent, setJournalContent] = useState("");
   
@@ -64,6 +86,8 @@ export default function Dashboard() {
       apiRequest("POST", "/api/emotional-checkin", { date: today, mood }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/emotional-checkin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics", "emotions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
     },
   });
 
@@ -72,6 +96,9 @@ export default function Dashboard() {
       apiRequest("POST", "/api/journal", { date: today, content }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      // Habits can be ticked by a journal rule
+      queryClient.invalidateQueries({ queryKey: ["/api/habits-with-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/calendar"] });
     },
   });
 
@@ -120,10 +147,25 @@ export default function Dashboard() {
               <h1 className="text-xl font-bold text-slate-900">TraderHabits</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <Button onClick={() => setShowMt5ImportModal(true)} size="sm" variant="outline">
+                <FileUp className="mr-1 w-4 h-4" />
+                Import MT5
+              </Button>
+              <Button onClick={() => setShowCsvImportModal(true)} size="sm" variant="outline">
+                <FileSpreadsheet className="mr-1 w-4 h-4" />
+                Import CSV
+              </Button>
+              <Button onClick={() => setShowExportModal(true)} size="sm" variant="outline">
+                <Download className="mr-1 w-4 h-4" />
+                Export
+              </Button>
               <Button onClick={() => setShowTradeModal(true)} size="sm">
                 <Plus className="mr-1 w-4 h-4" />
                 Add Trade
               </Button>
+              <Button onClick={() => setShowSettingsModal(true)} size="icon" variant="ghost" aria-label="Account settings">
+                <Settings className="w-4 h-4" />
+              </Button>
             </div>
           </div>
         </div>
@@ -146,6 +188,9 @@ export default function Dashboard() {
           </div>
         </div>
 
+        <DailyLockBanner />
+        <TiltWarnings />
+
         {/* Emotional Check-in */}
         <Card className="mb-8">
           <CardContent className="p-6">
@@ -314,11 +359,41 @@ export default function Dashboard() {
                 </CardContent>
               </Card>
             </div>
+            <div className="mt-6">
+              <EquityCurveCard />
+            </div>
+            <div className="mt-6">
+              <PnlCalendarCard />
+            </div>
+            <div className="mt-6">
+              <PerformanceBreakdownCard />
+            </div>
+            <div className="grid lg:grid-cols-2 gap-6 mt-6">
+              <TimingAnalyticsCard />
+              <EmotionAnalyticsCard />
+            </div>
+            <div className="mt-6">
+              <HabitCorrelationCard />
+            </div>
+            <div className="grid lg:grid-cols-2 gap-6 mt-6">
+              <StreaksCard />
+              <RollingMetricsCard />
+            </div>
+            <div className="mt-6">
+              <MistakesReportCard />
+            </div>
+            <div className="mt-6">
+              <MonteCarloCard />
+            </div>
+            <div className="mt-6">
+              <TradesList />
+            </div>
           </TabsContent>
 
           <TabsContent value="goals">
-            <div className="mt-6">
+            <div className="mt-6 space-y-6">
               <GoalsTracker />
+              <ChallengesCard />
             </div>
           </TabsContent>
 
@@ -360,6 +435,26 @@ export default function Dashboard() {
         open={showTradeModal} 
         onOpenChange={setShowTradeModal} 
       />
+
+      <Mt5ImportModal
+        open={showMt5ImportModal}
+        onOpenChange={setShowMt5ImportModal}
+      />
+
+      <CsvImportModal
+        open={showCsvImportModal}
+        onOpenChange={setShowCsvImportModal}
+      />
+
+      <TradeExportModal
+        open={showExportModal}
+        onOpenChange={setShowExportModal}
+      />
+
+      <AccountSettingsModal
+        open={showSettingsModal}
+        onOpenChange={setShowSettingsModal}
+      />
     </div>
   );
 }
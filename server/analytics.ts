@@ -0,0 +1,875 @@
+import type { AdvancedMetrics, BreakdownDimension, BreakdownGroup, CalendarSummary, DaySummary, EmotionalCheckIn, EmotionAnalytics, EmotionOutcome, EquityCurve,
+  StreakLength, StreakStats, TiltEvent, RollingMetrics, RollingPoint, RollingWindowUnit,
+  Habit, HabitCompletion, HabitCorrelation, HabitCorrelationAnalytics, HabitPerformanceGroup, MistakeCost, MistakeFrequency, MistakeReport, EquityPoint, PerformanceBreakdown, PnlBasis, RBucket, TimingAnalytics, TradeReview, TradingStats } from "@shared/schema";
+import { getNetPnl, toNumber } from "@shared/trade-math";
+import type { BaseCurrencyTrades } from "./fx";
+
+// Trading analytics shared by every IStorage implementation. Storage classes
+// load the trades and convert them into base currency; the calculations here
+// are pure.
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function getTradePnl(trade: TradeReview, basis: PnlBasis): number | null {
+  return basis === "net" ? getNetPnl(trade) : toNumber(trade.pnl);
+}
+
+// Upper bounds of the R histogram buckets; the last bucket is open-ended
+const R_BUCKET_EDGES = [-2, -1, 0, 1, 2, 3];
+
+function formatR(value: number): string {
+  return `${value}R`;
+}
+
+export function buildRDistribution(rMultiples: number[]): RBucket[] {
+  const buckets: RBucket[] = [];
+  let from: number | null = null;
+
+  for (const to of [...R_BUCKET_EDGES, null]) {
+    const label = from === null ? `< ${formatR(to!)}` : to === null ? `≥ ${formatR(from)}` : `${formatR(from)} to ${formatR(to)}`;
+    const count = rMultiples.filter(r => (from === null || r >= from) && (to === null || r < to)).length;
+    buckets.push({ label, from, to, count });
+    from = to;
+  }
+
+  return buckets;
+}
+
+// No losses and some wins reads as 999 rather than infinity so it survives JSON
+function calculateProfitFactor(totalWins: number, totalLosses: number): number {
+  return totalLosses > 0 ? totalWins / totalLosses : totalWins > 0 ? 999 : 0;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? round2(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+}
+
+// Van Tharp caps the SQN sample at 100 trades so large samples don't dominate
+const SQN_MAX_TRADES = 100;
+const TRADING_DAYS_PER_YEAR = 252;
+
+function sampleStdDev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value !== null && isFinite(value) ? round2(value) : null;
+}
+
+// Sharpe and Sortino use daily P&L in place of daily returns: dividing every
+// day by the same account size would not change either ratio. The risk-free
+// rate is taken as zero.
+export function calculateAdvancedMetrics(trades: TradeReview[], basis: PnlBasis): AdvancedMetrics {
+  const pnls: number[] = [];
+  const dailyPnl = new Map<string, number>();
+  for (const trade of trades) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    pnls.push(pnl);
+    dailyPnl.set(trade.date, (dailyPnl.get(trade.date) || 0) + pnl);
+  }
+
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl < 0);
+  const expectancy = pnls.length > 0 ? pnls.reduce((sum, pnl) => sum + pnl, 0) / pnls.length : null;
+  const avgWin = wins.length > 0 ? wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length : null;
+  const avgLoss = losses.length > 0 ? Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0)) / losses.length : null;
+  const payoffRatio = avgWin !== null && avgLoss ? avgWin / avgLoss : null;
+  const stdDev = sampleStdDev(pnls);
+
+  const days = Array.from(dailyPnl.values());
+  const dailyMean = days.length > 0 ? days.reduce((sum, pnl) => sum + pnl, 0) / days.length : null;
+  const dailyStdDev = sampleStdDev(days);
+  const downsideDeviation = days.length > 1
+    ? Math.sqrt(days.reduce((sum, pnl) => sum + Math.min(pnl, 0) ** 2, 0) / days.length)
+    : null;
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const winRate = pnls.length > 0 ? wins.length / pnls.length : null;
+
+  return {
+    expectancy: roundOrNull(expectancy),
+    payoffRatio: roundOrNull(payoffRatio),
+    stdDev: roundOrNull(stdDev),
+    sqn: expectancy !== null && stdDev ? roundOrNull(Math.sqrt(Math.min(pnls.length, SQN_MAX_TRADES)) * expectancy / stdDev) : null,
+    sharpe: dailyMean !== null && dailyStdDev ? roundOrNull((dailyMean / dailyStdDev) * annualize) : null,
+    sortino: dailyMean !== null && downsideDeviation ? roundOrNull((dailyMean / downsideDeviation) * annualize) : null,
+    kelly: winRate !== null && payoffRatio ? roundOrNull(winRate - (1 - winRate) / payoffRatio) : null,
+    largestWin: wins.length > 0 ? round2(Math.max(...wins)) : null,
+    largestLoss: losses.length > 0 ? round2(Math.min(...losses)) : null,
+    tradingDays: days.length,
+  };
+}
+
+export function calculateTradingStats(
+  { trades, currency, unconverted }: BaseCurrencyTrades,
+  basis: PnlBasis = "gross",
+): TradingStats {
+  const emotionalStates: Record<string, number> = {};
+  const instruments: Record<string, { trades: number; pnl: number }> = {};
+
+  for (const trade of trades) {
+    if (trade.emotionalState) {
+      emotionalStates[trade.emotionalState] = (emotionalStates[trade.emotionalState] || 0) + 1;
+    }
+
+    const instrument = instruments[trade.symbol] || { trades: 0, pnl: 0 };
+    instrument.trades++;
+    instrument.pnl = round2(instrument.pnl + (getTradePnl(trade, basis) || 0));
+    instruments[trade.symbol] = instrument;
+  }
+
+  const sum = (values: (number | null)[]) => values.reduce<number>((total, value) => total + (value || 0), 0);
+  const grossPnL = sum(trades.map(t => toNumber(t.pnl)));
+  const netPnL = sum(trades.map(t => getNetPnl(t)));
+
+  const pnls = trades
+    .map(t => getTradePnl(t, basis))
+    .filter((pnl): pnl is number => pnl !== null);
+  const wins = pnls.filter(pnl => pnl > 0);
+  const losses = pnls.filter(pnl => pnl < 0);
+
+  const totalPnL = pnls.reduce((sum, pnl) => sum + pnl, 0);
+  const totalWins = wins.reduce((sum, pnl) => sum + pnl, 0);
+  const totalLosses = Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0));
+
+  const winRate = pnls.length > 0 ? (wins.length / pnls.length) * 100 : 0;
+  const avgWin = wins.length > 0 ? totalWins / wins.length : 0;
+  const avgLoss = losses.length > 0 ? totalLosses / losses.length : 0;
+  const profitFactor = calculateProfitFactor(totalWins, totalLosses);
+
+  const rMultiples = trades
+    .map(t => {
+      const pnl = getTradePnl(t, basis);
+      const risk = toNumber(t.initialRisk);
+      return pnl !== null && risk ? pnl / risk : null;
+    })
+    .filter((r): r is number => r !== null);
+  const winRs = rMultiples.filter(r => r > 0);
+  const lossRs = rMultiples.filter(r => r < 0).map(Math.abs);
+  const avgWinR = average(winRs);
+  const avgLossR = average(lossRs);
+  const expectancyR = rMultiples.length > 0
+    ? round2((winRs.length / rMultiples.length) * (avgWinR || 0) - (lossRs.length / rMultiples.length) * (avgLossR || 0))
+    : null;
+
+  return {
+    basis,
+    currency,
+    unconvertedTrades: unconverted.length,
+    totalTrades: trades.length,
+    winRate: Math.round(winRate),
+    totalPnL: round2(totalPnL),
+    grossPnL: round2(grossPnL),
+    netPnL: round2(netPnL),
+    totalCommission: round2(sum(trades.map(t => toNumber(t.commission)))),
+    totalSwap: round2(sum(trades.map(t => toNumber(t.swap)))),
+    totalFees: round2(sum(trades.map(t => toNumber(t.fees)))),
+    avgWin: round2(avgWin),
+    avgLoss: round2(avgLoss),
+    profitFactor: round2(profitFactor),
+    emotionalStates,
+    instruments,
+    advanced: calculateAdvancedMetrics(trades, basis),
+    tradesWithRisk: rMultiples.length,
+    avgR: average(rMultiples),
+    avgWinR,
+    avgLossR,
+    expectancyR,
+    rDistribution: buildRDistribution(rMultiples),
+  };
+}
+
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// A trade with several tags counts towards each of them, so tag groups can add
+// up to more trades than the period holds.
+function getBreakdownKeys(trade: TradeReview, by: BreakdownDimension): string[] {
+  switch (by) {
+    case "setup": return [trade.setup?.trim() || "No setup"];
+    case "tag": return trade.tags && trade.tags.length > 0 ? Array.from(new Set(trade.tags)) : ["Untagged"];
+    case "symbol": return [trade.symbol];
+    case "side": return [trade.side];
+    // Trade dates are calendar dates, so read them in UTC to avoid shifting the day
+    case "weekday": return [WEEKDAYS[(new Date(`${trade.date}T00:00:00Z`).getUTCDay() + 6) % 7]];
+    case "month": return [trade.date.slice(0, 7)];
+  }
+}
+
+export function calculatePerformanceBreakdown(
+  { trades, currency }: BaseCurrencyTrades,
+  by: BreakdownDimension,
+  basis: PnlBasis = "net",
+): PerformanceBreakdown {
+  const pnlsByKey = new Map<string, number[]>();
+  for (const trade of trades) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    for (const key of getBreakdownKeys(trade, by)) {
+      pnlsByKey.set(key, [...(pnlsByKey.get(key) || []), pnl]);
+    }
+  }
+
+  const groups: BreakdownGroup[] = Array.from(pnlsByKey.entries()).map(([key, pnls]) => {
+    const { trades, pnl, winRate } = summarizePnls(pnls);
+    const totalWins = pnls.filter(value => value > 0).reduce((sum, value) => sum + value, 0);
+    const totalLosses = Math.abs(pnls.filter(value => value < 0).reduce((sum, value) => sum + value, 0));
+    return {
+      key,
+      trades,
+      winRate,
+      pnl,
+      expectancy: round2(pnl / trades),
+      profitFactor: round2(calculateProfitFactor(totalWins, totalLosses)),
+    };
+  });
+
+  // Calendar dimensions read best in calendar order; the rest lead with the most traded
+  if (by === "weekday") groups.sort((a, b) => WEEKDAYS.indexOf(a.key) - WEEKDAYS.indexOf(b.key));
+  else if (by === "month") groups.sort((a, b) => a.key.localeCompare(b.key));
+  else groups.sort((a, b) => b.trades - a.trades || b.pnl - a.pnl);
+
+  return { by, basis, currency, groups };
+}
+
+const MOOD_ORDER = ["excellent", "good", "neutral", "stressed", "angry"];
+const NO_CHECK_IN = "No check-in";
+
+function getRMultiple(trade: TradeReview, pnl: number): number | null {
+  const risk = toNumber(trade.initialRisk);
+  return risk ? pnl / risk : null;
+}
+
+function summarizeOutcomes(
+  groups: Map<string, { pnl: number; r: number | null }[]>,
+  allLosses: number[],
+): EmotionOutcome[] {
+  const totalLoss = allLosses.reduce((sum, loss) => sum + loss, 0);
+
+  return Array.from(groups.entries()).map(([key, outcomes]) => {
+    const pnls = outcomes.map(outcome => outcome.pnl);
+    const { trades, pnl, winRate } = summarizePnls(pnls);
+    const losses = pnls.filter(value => value < 0).map(Math.abs);
+    const avgLoss = losses.length > 0 ? losses.reduce((sum, loss) => sum + loss, 0) / losses.length : null;
+
+    const otherLossCount = allLosses.length - losses.length;
+    const otherAvgLoss = otherLossCount > 0
+      ? (totalLoss - losses.reduce((sum, loss) => sum + loss, 0)) / otherLossCount
+      : null;
+
+    return {
+      key,
+      trades,
+      winRate,
+      pnl,
+      avgPnl: round2(pnl / trades),
+      avgLoss: avgLoss === null ? null : round2(avgLoss),
+      expectancyR: average(outcomes.map(outcome => outcome.r).filter((r): r is number => r !== null)),
+      lossMultiple: avgLoss !== null && otherAvgLoss ? round2(avgLoss / otherAvgLoss) : null,
+    };
+  });
+}
+
+// Trades are matched to the check-in for their trade date; days without a
+// check-in form their own group so the comparison isn't silently skewed.
+export function calculateEmotionAnalytics(
+  { trades, currency }: BaseCurrencyTrades,
+  checkIns: EmotionalCheckIn[],
+  basis: PnlBasis = "net",
+): EmotionAnalytics {
+  const moodByDate = new Map(checkIns.map(checkIn => [checkIn.date, checkIn.mood]));
+  const byState = new Map<string, { pnl: number; r: number | null }[]>();
+  const byMood = new Map<string, { pnl: number; r: number | null }[]>();
+  const stateLosses: number[] = [];
+  const allLosses: number[] = [];
+
+  for (const trade of trades) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    const outcome = { pnl, r: getRMultiple(trade, pnl) };
+
+    if (trade.emotionalState) {
+      byState.set(trade.emotionalState, [...(byState.get(trade.emotionalState) || []), outcome]);
+      if (pnl < 0) stateLosses.push(Math.abs(pnl));
+    }
+
+    const mood = moodByDate.get(trade.date) || NO_CHECK_IN;
+    byMood.set(mood, [...(byMood.get(mood) || []), outcome]);
+    if (pnl < 0) allLosses.push(Math.abs(pnl));
+  }
+
+  const moodRank = (mood: string) => {
+    const index = MOOD_ORDER.indexOf(mood);
+    return index === -1 ? MOOD_ORDER.length : index;
+  };
+
+  return {
+    basis,
+    currency,
+    byEmotionalState: summarizeOutcomes(byState, stateLosses).sort((a, b) => b.trades - a.trades),
+    byMood: summarizeOutcomes(byMood, allLosses).sort((a, b) => moodRank(a.key) - moodRank(b.key)),
+  };
+}
+
+// Each group needs this many trading days before a difference is called significant,
+// and |t| must reach roughly the two-sided 95% level
+const MIN_SIGNIFICANT_DAYS = 5;
+const SIGNIFICANT_T = 2;
+
+function summarizeHabitGroup(days: { pnls: number[]; total: number }[]): HabitPerformanceGroup {
+  const pnls = days.flatMap(day => day.pnls);
+  const { trades, pnl, winRate } = summarizePnls(pnls);
+  return {
+    days: days.length,
+    trades,
+    pnl,
+    avgDailyPnl: average(days.map(day => day.total)),
+    winRate,
+  };
+}
+
+function welchT(a: number[], b: number[]): number | null {
+  const sdA = sampleStdDev(a);
+  const sdB = sampleStdDev(b);
+  if (sdA === null || sdB === null) return null;
+  const standardError = Math.sqrt(sdA ** 2 / a.length + sdB ** 2 / b.length);
+  if (standardError === 0) return null;
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return (mean(a) - mean(b)) / standardError;
+}
+
+// Habits carry no creation date, so a habit only counts as missed from its
+// first recorded completion onwards; earlier trading days are left out rather
+// than blamed on a habit that didn't exist yet. The trading day is the unit of
+// comparison because habits are done (or not) once per day.
+export function calculateHabitCorrelations(
+  { trades, currency }: BaseCurrencyTrades,
+  habits: Habit[],
+  completions: HabitCompletion[],
+  basis: PnlBasis = "net",
+): HabitCorrelationAnalytics {
+  const pnlsByDate = new Map<string, number[]>();
+  for (const trade of trades) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    pnlsByDate.set(trade.date, [...(pnlsByDate.get(trade.date) || []), pnl]);
+  }
+  const tradingDays = Array.from(pnlsByDate.entries())
+    .map(([date, pnls]) => ({ date, pnls, total: pnls.reduce((sum, pnl) => sum + pnl, 0) }));
+
+  const correlations: HabitCorrelation[] = habits.map(habit => {
+    const records = completions.filter(completion => completion.habitId === habit.id);
+    const firstRecorded = records.reduce<string | null>((first, record) => (first === null || record.date < first ? record.date : first), null);
+    const completedDates = new Set(records.filter(record => record.completed).map(record => record.date));
+
+    const tracked = firstRecorded === null ? [] : tradingDays.filter(day => day.date >= firstRecorded);
+    const completedDays = tracked.filter(day => completedDates.has(day.date));
+    const missedDays = tracked.filter(day => !completedDates.has(day.date));
+
+    const completed = summarizeHabitGroup(completedDays);
+    const missed = summarizeHabitGroup(missedDays);
+    const tStat = welchT(completedDays.map(day => day.total), missedDays.map(day => day.total));
+
+    return {
+      habitId: habit.id,
+      habitName: habit.name,
+      completed,
+      missed,
+      difference: completed.avgDailyPnl !== null && missed.avgDailyPnl !== null
+        ? round2(completed.avgDailyPnl - missed.avgDailyPnl)
+        : null,
+      tStat: roundOrNull(tStat),
+      significant: tStat !== null
+        && completed.days >= MIN_SIGNIFICANT_DAYS
+        && missed.days >= MIN_SIGNIFICANT_DAYS
+        && Math.abs(tStat) >= SIGNIFICANT_T,
+    };
+  });
+
+  // Biggest payoff first; habits without both groups sink to the bottom
+  correlations.sort((a, b) => (b.difference ?? -Infinity) - (a.difference ?? -Infinity));
+
+  return { basis, currency, habits: correlations };
+}
+
+// A trade carrying several mistakes counts fully towards each one, so the
+// per-mistake figures overlap; pnlIfAllSkipped removes each trade only once.
+export function calculateMistakeReport({ trades, currency }: BaseCurrencyTrades, basis: PnlBasis = "net"): MistakeReport {
+  const byMistake = new Map<string, number[]>();
+  const byMonth = new Map<string, MistakeFrequency>();
+  let totalPnl = 0;
+  let mistakePnl = 0;
+  let tradesWithMistakes = 0;
+
+  for (const trade of trades) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    totalPnl += pnl;
+
+    const month = trade.date.slice(0, 7);
+    const frequency = byMonth.get(month) || { month, trades: 0, tradesWithMistakes: 0, counts: {} };
+    frequency.trades++;
+    byMonth.set(month, frequency);
+
+    const mistakes = Array.from(new Set((trade.mistakes || []).map(mistake => mistake.trim()).filter(Boolean)));
+    if (mistakes.length === 0) continue;
+
+    tradesWithMistakes++;
+    mistakePnl += pnl;
+    frequency.tradesWithMistakes++;
+    for (const mistake of mistakes) {
+      byMistake.set(mistake, [...(byMistake.get(mistake) || []), pnl]);
+      frequency.counts[mistake] = (frequency.counts[mistake] || 0) + 1;
+    }
+  }
+
+  const mistakes: MistakeCost[] = Array.from(byMistake.entries()).map(([mistake, pnls]) => {
+    const pnl = pnls.reduce((sum, value) => sum + value, 0);
+    return {
+      mistake,
+      trades: pnls.length,
+      pnl: round2(pnl),
+      avgPnl: round2(pnl / pnls.length),
+      pnlIfSkipped: round2(totalPnl - pnl),
+    };
+  });
+  mistakes.sort((a, b) => a.pnl - b.pnl || b.trades - a.trades);
+
+  return {
+    basis,
+    currency,
+    totalPnl: round2(totalPnl),
+    tradesWithMistakes,
+    pnlIfAllSkipped: round2(totalPnl - mistakePnl),
+    mistakes,
+    frequency: Array.from(byMonth.values()).sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
+
+// Percent of habits completed per date; dates without any completion are absent
+function getHabitCompletionByDate(habits: Habit[], completions: HabitCompletion[]): Map<string, number> {
+  const habitIds = new Set(habits.map(habit => habit.id));
+  const completedByDate = new Map<string, number>();
+  for (const completion of completions) {
+    if (!completion.completed || !habitIds.has(completion.habitId)) continue;
+    completedByDate.set(completion.date, (completedByDate.get(completion.date) || 0) + 1);
+  }
+  return new Map(Array.from(completedByDate.entries()).map(([date, completed]) => [date, (completed / habits.length) * 100]));
+}
+
+// Walks calendar dates in UTC so DST changes can't skip or repeat a day
+function eachDate(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let time = Date.parse(`${startDate}T00:00:00Z`); time <= Date.parse(`${endDate}T00:00:00Z`); time += 86400000) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+export function calculateCalendarSummary(
+  { trades, currency }: BaseCurrencyTrades,
+  checkIns: EmotionalCheckIn[],
+  habits: Habit[],
+  completions: HabitCompletion[],
+  startDate: string,
+  endDate: string,
+  basis: PnlBasis = "net",
+): CalendarSummary {
+  const tradesByDate = new Map<string, { trades: number; pnl: number }>();
+  for (const trade of trades) {
+    const day = tradesByDate.get(trade.date) || { trades: 0, pnl: 0 };
+    day.trades++;
+    day.pnl += getTradePnl(trade, basis) || 0;
+    tradesByDate.set(trade.date, day);
+  }
+
+  const moodByDate = new Map(checkIns.map(checkIn => [checkIn.date, checkIn.mood]));
+  const completionByDate = getHabitCompletionByDate(habits, completions);
+
+  const days: DaySummary[] = eachDate(startDate, endDate).map(date => {
+    const traded = tradesByDate.get(date);
+    return {
+      date,
+      trades: traded?.trades || 0,
+      pnl: round2(traded?.pnl || 0),
+      mood: moodByDate.get(date) || null,
+      habitCompletionRate: habits.length > 0 ? Math.round(completionByDate.get(date) || 0) : null,
+    };
+  });
+
+  return { basis, currency, days };
+}
+
+// Only full windows are emitted: a point appears once N trades (or N days
+// since the first trade) are available, so early points aren't built on a
+// handful of trades.
+export function calculateRollingMetrics(
+  { trades, currency }: BaseCurrencyTrades,
+  habits: Habit[],
+  completions: HabitCompletion[],
+  window: number,
+  unit: RollingWindowUnit,
+  basis: PnlBasis = "net",
+): RollingMetrics {
+  const outcomes = sortTradesChronologically(trades)
+    .map(trade => {
+      const pnl = getTradePnl(trade, basis);
+      return pnl === null ? null : { trade, pnl, r: getRMultiple(trade, pnl) };
+    })
+    .filter((outcome): outcome is { trade: TradeReview; pnl: number; r: number | null } => outcome !== null);
+
+  const completionByDate = getHabitCompletionByDate(habits, completions);
+  const habitCompletion = (from: string, to: string) => {
+    if (habits.length === 0) return null;
+    return average(eachDate(from, to).map(date => completionByDate.get(date) || 0));
+  };
+
+  const buildPoint = (slice: typeof outcomes, from: string, to: string, tradeId: number | null): RollingPoint => {
+    const pnls = slice.map(outcome => outcome.pnl);
+    const { trades, pnl, winRate } = summarizePnls(pnls);
+    const totalWins = pnls.filter(value => value > 0).reduce((sum, value) => sum + value, 0);
+    const totalLosses = Math.abs(pnls.filter(value => value < 0).reduce((sum, value) => sum + value, 0));
+    return {
+      date: to,
+      tradeId,
+      trades,
+      winRate,
+      expectancy: round2(pnl / trades),
+      profitFactor: totalLosses > 0 ? round2(totalWins / totalLosses) : null,
+      avgR: average(slice.map(outcome => outcome.r).filter((r): r is number => r !== null)),
+      habitCompletion: habitCompletion(from, to),
+    };
+  };
+
+  const points: RollingPoint[] = [];
+  if (unit === "trades") {
+    for (let end = window; end <= outcomes.length; end++) {
+      const slice = outcomes.slice(end - window, end);
+      const last = slice[slice.length - 1].trade;
+      points.push(buildPoint(slice, slice[0].trade.date, last.date, last.id));
+    }
+  } else if (outcomes.length > 0) {
+    const firstFullDay = addDays(outcomes[0].trade.date, window - 1);
+    const tradingDays = Array.from(new Set(outcomes.map(outcome => outcome.trade.date)));
+    for (const date of tradingDays) {
+      if (date < firstFullDay) continue;
+      const from = addDays(date, -(window - 1));
+      const slice = outcomes.filter(outcome => outcome.trade.date >= from && outcome.trade.date <= date);
+      points.push(buildPoint(slice, from, date, null));
+    }
+  }
+
+  return { basis, currency, window, unit, points };
+}
+
+// Lower bounds, in minutes, of the holding-time buckets; the last bucket is open-ended
+const HOLDING_BUCKETS: { label: string; fromMinutes: number }[] = [
+  { label: "< 5m", fromMinutes: 0 },
+  { label: "5m to 15m", fromMinutes: 5 },
+  { label: "15m to 1h", fromMinutes: 15 },
+  { label: "1h to 4h", fromMinutes: 60 },
+  { label: "4h to 1d", fromMinutes: 240 },
+  { label: "1d to 1w", fromMinutes: 1440 },
+  { label: "≥ 1w", fromMinutes: 10080 },
+];
+
+function summarizePnls(pnls: number[]): { trades: number; pnl: number; winRate: number } {
+  const wins = pnls.filter(pnl => pnl > 0).length;
+  return {
+    trades: pnls.length,
+    pnl: round2(pnls.reduce((sum, pnl) => sum + pnl, 0)),
+    winRate: pnls.length > 0 ? Math.round((wins / pnls.length) * 100) : 0,
+  };
+}
+
+export function getHoldingMinutes(trade: TradeReview): number | null {
+  if (!trade.entryTime || !trade.exitTime) return null;
+  const minutes = (new Date(trade.exitTime).getTime() - new Date(trade.entryTime).getTime()) / 60000;
+  return minutes >= 0 ? minutes : null;
+}
+
+// Hours are bucketed by entry time in the caller's timezone, so a 09:30 New
+// York open lands in hour 9 regardless of where the server runs.
+export function calculateTimingAnalytics(
+  { trades, currency }: BaseCurrencyTrades,
+  basis: PnlBasis = "gross",
+  timezone = "UTC",
+): TimingAnalytics {
+  const hourFormat = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone: timezone });
+  const hourlyPnls: number[][] = Array.from({ length: 24 }, () => []);
+  const holdingPnls: number[][] = HOLDING_BUCKETS.map(() => []);
+  const holdingMinutes: number[] = [];
+  let tradesWithTimes = 0;
+
+  for (const trade of trades) {
+    if (!trade.entryTime) continue;
+    tradesWithTimes++;
+
+    const pnl = getTradePnl(trade, basis);
+    const hour = parseInt(hourFormat.format(new Date(trade.entryTime)));
+    if (pnl !== null) hourlyPnls[hour].push(pnl);
+
+    const minutes = getHoldingMinutes(trade);
+    if (minutes === null) continue;
+    holdingMinutes.push(minutes);
+
+    let bucket = HOLDING_BUCKETS.length - 1;
+    while (bucket > 0 && minutes < HOLDING_BUCKETS[bucket].fromMinutes) bucket--;
+    if (pnl !== null) holdingPnls[bucket].push(pnl);
+  }
+
+  const sorted = [...holdingMinutes].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length === 0
+    ? null
+    : sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+
+  return {
+    basis,
+    currency,
+    timezone,
+    tradesWithTimes,
+    avgHoldingMinutes: average(holdingMinutes),
+    medianHoldingMinutes: median !== null ? round2(median) : null,
+    holdingTime: HOLDING_BUCKETS.map((bucket, i) => ({
+      label: bucket.label,
+      fromMinutes: bucket.fromMinutes,
+      toMinutes: HOLDING_BUCKETS[i + 1]?.fromMinutes ?? null,
+      ...summarizePnls(holdingPnls[i]),
+    })),
+    byHour: hourlyPnls.map((pnls, hour) => ({ hour, ...summarizePnls(pnls) })),
+  };
+}
+
+// Trades in the order they were taken: by trading day, then entry time, then id
+export function sortTradesChronologically(trades: TradeReview[]): TradeReview[] {
+  const time = (trade: TradeReview) => (trade.entryTime ? new Date(trade.entryTime).getTime() : 0);
+  return [...trades].sort((a, b) => a.date.localeCompare(b.date) || time(a) - time(b) || a.id - b.id);
+}
+
+// Breakeven trades end a streak without starting one
+export function calculateStreaks({ trades }: BaseCurrencyTrades, basis: PnlBasis = "net"): StreakStats {
+  const lengths = new Map<number, StreakLength>();
+  let current: StreakStats["current"] = { type: null, length: 0 };
+
+  const close = () => {
+    if (current.type === null) return;
+    const entry = lengths.get(current.length) || { length: current.length, wins: 0, losses: 0 };
+    if (current.type === "win") entry.wins++;
+    else entry.losses++;
+    lengths.set(current.length, entry);
+  };
+
+  for (const trade of sortTradesChronologically(trades)) {
+    const pnl = getTradePnl(trade, basis);
+    if (pnl === null) continue;
+    const type = pnl > 0 ? "win" : pnl < 0 ? "loss" : null;
+    if (type !== null && type === current.type) {
+      current = { type, length: current.length + 1 };
+    } else {
+      close();
+      current = { type, length: type === null ? 0 : 1 };
+    }
+  }
+  close();
+
+  const distribution = Array.from(lengths.values()).sort((a, b) => a.length - b.length);
+  return {
+    current,
+    longestWin: Math.max(0, ...distribution.filter(entry => entry.wins > 0).map(entry => entry.length)),
+    longestLoss: Math.max(0, ...distribution.filter(entry => entry.losses > 0).map(entry => entry.length)),
+    distribution,
+  };
+}
+
+// Tilt thresholds. Sizes are compared against the median of earlier trades,
+// which needs a few trades of history to mean anything.
+const REVENGE_MINUTES = 10;
+const SIZE_JUMP = 1.5;
+const MIN_SIZE_HISTORY = 5;
+const OVERTRADING_MULTIPLE = 2;
+const MIN_OVERTRADING_DAYS = 5;
+const TILT_EMOTIONS = ["greedy", "fearful"];
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Size is compared as money at risk when the trade has it, since that is
+// comparable across instruments, and otherwise as quantity within the symbol.
+function detectSizeJump(trade: TradeReview, earlier: TradeReview[]): string | null {
+  const risk = toNumber(trade.initialRisk);
+  const earlierRisks = earlier.map(t => toNumber(t.initialRisk)).filter((value): value is number => value !== null);
+  if (risk !== null && earlierRisks.length >= MIN_SIZE_HISTORY) {
+    const typical = median(earlierRisks)!;
+    if (typical > 0 && risk >= typical * SIZE_JUMP) {
+      return `Risked ${round2(risk / typical)}x the usual amount after a loss`;
+    }
+    return null;
+  }
+
+  const quantity = toNumber(trade.quantity);
+  const earlierQuantities = earlier
+    .filter(t => t.symbol === trade.symbol)
+    .map(t => toNumber(t.quantity))
+    .filter((value): value is number => value !== null);
+  if (quantity === null || earlierQuantities.length < MIN_SIZE_HISTORY) return null;
+  const typical = median(earlierQuantities)!;
+  if (typical > 0 && quantity >= typical * SIZE_JUMP) {
+    return `Traded ${round2(quantity / typical)}x the usual ${trade.symbol} size after a loss`;
+  }
+  return null;
+}
+
+// Looks for the behaviour that tends to follow losses: re-entering straight
+// away, sizing up, trading far more than usual, and greedy or fearful trades.
+// History before startDate is used for baselines but produces no events.
+export function detectTiltEvents({ trades }: BaseCurrencyTrades, startDate?: string, basis: PnlBasis = "net"): TiltEvent[] {
+  const events: TiltEvent[] = [];
+  const sorted = sortTradesChronologically(trades);
+
+  sorted.forEach((trade, index) => {
+    const previous = sorted[index - 1];
+    if (!previous) return;
+    const previousPnl = getTradePnl(previous, basis);
+    const afterLoss = previousPnl !== null && previousPnl < 0;
+    const event = (kind: TiltEvent["kind"], detail: string) =>
+      events.push({ kind, date: trade.date, tradeId: trade.id, symbol: trade.symbol, detail });
+
+    if (afterLoss && previous.exitTime && trade.entryTime) {
+      const minutes = (new Date(trade.entryTime).getTime() - new Date(previous.exitTime).getTime()) / 60000;
+      if (minutes >= 0 && minutes <= REVENGE_MINUTES) {
+        event("revenge", `Entered ${Math.round(minutes)}m after closing a loss`);
+      }
+    }
+
+    if (afterLoss) {
+      const sizeJump = detectSizeJump(trade, sorted.slice(0, index));
+      if (sizeJump) event("size", sizeJump);
+    }
+
+    const emotion = trade.emotionalState;
+    if (emotion && TILT_EMOTIONS.includes(emotion) && previous.emotionalState !== emotion) {
+      event("emotion", `Emotional state turned ${emotion}${afterLoss ? " after a loss" : ""}`);
+    }
+  });
+
+  const days = new Map<string, { trades: number; hadLoss: boolean }>();
+  for (const trade of sorted) {
+    const day = days.get(trade.date) || { trades: 0, hadLoss: false };
+    day.trades++;
+    day.hadLoss = day.hadLoss || (getTradePnl(trade, basis) ?? 0) < 0;
+    days.set(trade.date, day);
+  }
+  const typicalDay = days.size >= MIN_OVERTRADING_DAYS ? median(Array.from(days.values()).map(day => day.trades)) : null;
+  if (typicalDay !== null) {
+    days.forEach((day, date) => {
+      if (day.hadLoss && day.trades > 1 && day.trades >= typicalDay * OVERTRADING_MULTIPLE) {
+        events.push({ kind: "overtrading", date, tradeId: null, symbol: null, detail: `${day.trades} trades on a losing day, usually ${typicalDay}` });
+      }
+    });
+  }
+
+  return events
+    .filter(event => !startDate || event.date >= startDate)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function buildEquitySeries(steps: { date: string; tradeId: number | null; pnl: number }[], startingBalance: number): EquityPoint[] {
+  let equity = startingBalance;
+  let peak = startingBalance;
+
+  return steps.map(step => {
+    equity += step.pnl;
+    peak = Math.max(peak, equity);
+    const drawdown = peak - equity;
+    return {
+      date: step.date,
+      tradeId: step.tradeId,
+      pnl: round2(step.pnl),
+      equity: round2(equity),
+      peak: round2(peak),
+      drawdown: round2(drawdown),
+      drawdownPercent: peak > 0 ? round2((drawdown / peak) * 100) : null,
+    };
+  });
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+}
+
+export function calculateEquityCurve(
+  { trades, currency }: BaseCurrencyTrades,
+  basis: PnlBasis = "gross",
+  startingBalance = 0,
+): EquityCurve {
+  const steps = sortTradesChronologically(trades)
+    .map(trade => ({ date: trade.date, tradeId: trade.id, pnl: getTradePnl(trade, basis) }))
+    .filter((step): step is { date: string; tradeId: number; pnl: number } => step.pnl !== null);
+
+  const dailyPnl = new Map<string, number>();
+  for (const step of steps) {
+    dailyPnl.set(step.date, (dailyPnl.get(step.date) || 0) + step.pnl);
+  }
+
+  const tradePoints = buildEquitySeries(steps, startingBalance);
+  const dayPoints = buildEquitySeries(
+    Array.from(dailyPnl, ([date, pnl]) => ({ date, tradeId: null, pnl })),
+    startingBalance,
+  );
+
+  // A drawdown runs from the last point on a peak until equity is back at or
+  // above it; one still open at the end runs up to the last trade.
+  const longestDrawdown: EquityCurve["longestDrawdown"] = { days: 0, trades: 0, from: null, to: null, recovered: false };
+  const consider = (peakIndex: number, peakDate: string, index: number, recovered: boolean) => {
+    const days = daysBetween(peakDate, tradePoints[index].date);
+    const trades = index - peakIndex;
+    if (days > longestDrawdown.days || (days === longestDrawdown.days && trades > longestDrawdown.trades)) {
+      Object.assign(longestDrawdown, { days, trades, from: peakDate, to: tradePoints[index].date, recovered });
+    }
+  };
+
+  // Index -1 stands for the starting balance, before the first trade
+  let peakIndex = -1;
+  let peakDate = tradePoints[0]?.date;
+  tradePoints.forEach((point, index) => {
+    if (point.drawdown > 0) return;
+    if (index - peakIndex > 1) consider(peakIndex, peakDate, index, true);
+    peakIndex = index;
+    peakDate = point.date;
+  });
+  if (tradePoints.length > 0 && peakIndex < tradePoints.length - 1) {
+    consider(peakIndex, peakDate, tradePoints.length - 1, false);
+  }
+
+  const deepest = tradePoints.reduce<EquityPoint | null>((max, point) => (!max || point.drawdown > max.drawdown ? point : max), null);
+  const maxDrawdownPercent = tradePoints.reduce<number | null>(
+    (max, point) => (point.drawdownPercent !== null && (max === null || point.drawdownPercent > max) ? point.drawdownPercent : max),
+    null,
+  );
+
+  return {
+    basis,
+    currency,
+    startingBalance,
+    trades: tradePoints,
+    days: dayPoints,
+    maxDrawdown: deepest?.drawdown || 0,
+    maxDrawdownPercent,
+    currentDrawdown: tradePoints[tradePoints.length - 1]?.drawdown || 0,
+    longestDrawdown,
+  };
+}
@@ -0,0 +1,147 @@
+import type { Challenge, ChallengeEvaluation, ChallengeRule, ChallengeRuleResult, ChallengeStatus } from "@shared/schema";
+import { toNumber } from "@shared/trade-math";
+import { getTradePnl, round2, sortTradesChronologically } from "./analytics";
+import type { BaseCurrencyTrades } from "./fx";
+
+// Prop firm challenge evaluation. Closed trades are replayed in order until a
+// rule is breached or the target is reached; once a challenge is decided,
+// later trades no longer change its outcome.
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+}
+
+export function evaluateChallenge({ trades, currency }: BaseCurrencyTrades, challenge: Challenge, today: string): ChallengeStatus {
+  const startingBalance = toNumber(challenge.startingBalance) ?? 0;
+  const profitTarget = toNumber(challenge.profitTarget) ?? 0;
+  const maxDailyLoss = toNumber(challenge.maxDailyLoss);
+  const maxDrawdown = toNumber(challenge.maxDrawdown);
+  const floor = maxDrawdown !== null ? startingBalance - maxDrawdown : null;
+  const trailing = challenge.dailyLossType === "trailing";
+  const lastDate = challenge.deadline && challenge.deadline < today ? challenge.deadline : today;
+
+  let balance = startingBalance;
+  let day: string | null = null;
+  let dayOpen = balance;
+  let dayHigh = balance;
+  let worstDailyLoss = 0;
+  let worstDrawdown = 0;
+  const tradingDays = new Set<string>();
+  let status: ChallengeStatus["status"] = "active";
+  let decidedOn: string | null = null;
+  let breached: ChallengeRule | null = null;
+
+  const inWindow = trades.filter(trade => trade.date >= challenge.startDate && trade.date <= lastDate);
+  for (const trade of sortTradesChronologically(inWindow)) {
+    const pnl = getTradePnl(trade, "net");
+    if (pnl === null) continue;
+
+    if (trade.date !== day) {
+      day = trade.date;
+      dayOpen = balance;
+      dayHigh = balance;
+    }
+    tradingDays.add(day);
+    balance += pnl;
+    dayHigh = Math.max(dayHigh, balance);
+    worstDailyLoss = Math.max(worstDailyLoss, (trailing ? dayHigh : dayOpen) - balance);
+    worstDrawdown = Math.max(worstDrawdown, startingBalance - balance);
+
+    if (maxDailyLoss !== null && worstDailyLoss >= maxDailyLoss) {
+      breached = "dailyLoss";
+    } else if (floor !== null && balance <= floor) {
+      breached = "maxDrawdown";
+    } else if (balance - startingBalance >= profitTarget && tradingDays.size >= challenge.minTradingDays) {
+      status = "passed";
+      decidedOn = day;
+      break;
+    }
+    if (breached) {
+      status = "failed";
+      decidedOn = day;
+      break;
+    }
+  }
+
+  if (status === "active" && challenge.deadline && today > challenge.deadline) {
+    status = "failed";
+    decidedOn = challenge.deadline;
+    breached = "deadline";
+  }
+
+  const ruleStatus = (rule: ChallengeRule, met: boolean): ChallengeRuleResult["status"] =>
+    breached === rule ? "breached" : met ? "met" : "pending";
+  const profit = round2(balance - startingBalance);
+  // Room left today; a new day starts from a clean slate
+  const todayLoss = day === today ? (trailing ? dayHigh : dayOpen) - balance : 0;
+
+  const rules: ChallengeRuleResult[] = [{
+    rule: "profitTarget",
+    status: ruleStatus("profitTarget", profit >= profitTarget),
+    value: profit,
+    limit: profitTarget,
+    remaining: round2(Math.max(0, profitTarget - profit)),
+    message: `${profit} of ${profitTarget} ${currency} profit`,
+  }];
+  if (maxDailyLoss !== null) {
+    rules.push({
+      rule: "dailyLoss",
+      status: ruleStatus("dailyLoss", true),
+      value: round2(worstDailyLoss),
+      limit: maxDailyLoss,
+      remaining: breached === "dailyLoss" ? 0 : round2(maxDailyLoss - todayLoss),
+      message: `Worst day lost ${round2(worstDailyLoss)} of ${maxDailyLoss} ${currency} allowed (${trailing ? "trailing" : "static"})`,
+    });
+  }
+  if (maxDrawdown !== null && floor !== null) {
+    rules.push({
+      rule: "maxDrawdown",
+      status: ruleStatus("maxDrawdown", true),
+      value: round2(worstDrawdown),
+      limit: maxDrawdown,
+      remaining: round2(Math.max(0, balance - floor)),
+      message: `Lowest balance was ${round2(worstDrawdown)} ${currency} below start, ${maxDrawdown} allowed`,
+    });
+  }
+  if (challenge.minTradingDays > 0) {
+    rules.push({
+      rule: "minTradingDays",
+      status: ruleStatus("minTradingDays", tradingDays.size >= challenge.minTradingDays),
+      value: tradingDays.size,
+      limit: challenge.minTradingDays,
+      remaining: Math.max(0, challenge.minTradingDays - tradingDays.size),
+      message: `${tradingDays.size} of ${challenge.minTradingDays} trading days`,
+    });
+  }
+  if (challenge.deadline) {
+    const elapsed = Math.max(0, daysBetween(challenge.startDate, lastDate));
+    const total = daysBetween(challenge.startDate, challenge.deadline);
+    rules.push({
+      rule: "deadline",
+      status: ruleStatus("deadline", status === "passed"),
+      value: elapsed,
+      limit: total,
+      remaining: Math.max(0, daysBetween(today, challenge.deadline)),
+      message: `Day ${elapsed} of ${total}, ends ${challenge.deadline}`,
+    });
+  }
+
+  return {
+    challengeId: challenge.id,
+    status,
+    decidedOn,
+    currency,
+    balance: round2(balance),
+    pnl: profit,
+    tradingDays: tradingDays.size,
+    rules,
+  };
+}
+
+// What a logged evaluation is compared on to decide whether a new one is worth
+// logging. Days elapsed and room remaining move with the calendar alone, so
+// they are left out; the deadline's own breach still shows in its status.
+export function challengeEvaluationKey(evaluation: ChallengeStatus | ChallengeEvaluation): string {
+  const rules = evaluation.rules.map(rule => `${rule.rule}:${rule.status}:${rule.rule === "deadline" ? "" : rule.value}`);
+  return [evaluation.status, String(evaluation.balance), ...rules].join("|");
+}
@@ -0,0 +1,63 @@
+// Point values for common instruments: what a one unit price move is worth per
+// unit of quantity, in the instrument's quote currency.
+
+const CURRENCIES = new Set([
+  "USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "SEK", "NOK", "DKK",
+  "SGD", "HKD", "MXN", "ZAR", "TRY", "PLN", "CZK", "HUF", "CNH",
+]);
+
+// Standard forex lot
+const FOREX_CONTRACT_SIZE = 100000;
+
+const SPECS: Record<string, number> = {
+  XAUUSD: 100,
+  XAGUSD: 5000,
+  // Futures multipliers by root symbol
+  ES: 50,
+  MES: 5,
+  NQ: 20,
+  MNQ: 2,
+  YM: 5,
+  MYM: 0.5,
+  RTY: 50,
+  M2K: 5,
+  CL: 1000,
+  MCL: 100,
+  NG: 10000,
+  GC: 100,
+  MGC: 10,
+  SI: 5000,
+  HG: 25000,
+  ZB: 1000,
+  ZN: 1000,
+  ZF: 1000,
+  "6E": 125000,
+  "6B": 62500,
+  "6J": 12500000,
+};
+
+// "ESZ4", "ESZ24" -> "ES"
+const FUTURES_CONTRACT = /^([A-Z0-9]{1,3}?)[FGHJKMNQUVXZ]\d{1,2}$/;
+
+export function normalizeSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function isForexPair(symbol: string): boolean {
+  const normalized = normalizeSymbol(symbol);
+  return normalized.length === 6 &&
+    CURRENCIES.has(normalized.slice(0, 3)) &&
+    CURRENCIES.has(normalized.slice(3));
+}
+
+export function getDefaultPointValue(symbol: string): number {
+  const normalized = normalizeSymbol(symbol);
+  if (SPECS[normalized] !== undefined) return SPECS[normalized];
+  if (isForexPair(normalized)) return FOREX_CONTRACT_SIZE;
+
+  const root = FUTURES_CONTRACT.exec(normalized)?.[1];
+  if (root && SPECS[root] !== undefined) return SPECS[root];
+
+  // Shares, crypto and per-unit CFDs
+  return 1;
+}
@@ -0,0 +1,46 @@
+import type { AccountSettings, DailyLimitBreach, DailyLimitStatus } from "@shared/schema";
+import { toNumber } from "@shared/trade-math";
+import { getTradePnl, round2, sortTradesChronologically } from "./analytics";
+import type { BaseCurrencyTrades } from "./fx";
+
+// Daily circuit breaker. A day locks once any configured limit is reached;
+// trades still open count towards the trade limit but not towards P&L.
+
+export function calculateDailyLimitStatus(
+  { trades, currency }: BaseCurrencyTrades,
+  settings: AccountSettings,
+  date: string,
+): DailyLimitStatus {
+  const pnls = sortTradesChronologically(trades.filter(trade => trade.date === date))
+    .map(trade => getTradePnl(trade, "net"));
+  const closed = pnls.filter((pnl): pnl is number => pnl !== null);
+
+  const pnl = round2(closed.reduce((sum, value) => sum + value, 0));
+  let consecutiveLosses = 0;
+  for (let i = closed.length - 1; i >= 0 && closed[i] < 0; i--) {
+    consecutiveLosses++;
+  }
+
+  const breaches: DailyLimitBreach[] = [];
+  const maxDailyLoss = toNumber(settings.maxDailyLoss);
+  if (maxDailyLoss && -pnl >= maxDailyLoss) {
+    breaches.push({ kind: "loss", limit: maxDailyLoss, value: -pnl, message: `Daily loss of ${-pnl} ${currency} reached the ${maxDailyLoss} ${currency} limit` });
+  }
+  if (settings.maxTradesPerDay && pnls.length >= settings.maxTradesPerDay) {
+    breaches.push({ kind: "trades", limit: settings.maxTradesPerDay, value: pnls.length, message: `${pnls.length} trades taken of ${settings.maxTradesPerDay} allowed` });
+  }
+  if (settings.maxConsecutiveLosses && consecutiveLosses >= settings.maxConsecutiveLosses) {
+    breaches.push({ kind: "consecutiveLosses", limit: settings.maxConsecutiveLosses, value: consecutiveLosses, message: `${consecutiveLosses} losses in a row` });
+  }
+
+  return {
+    date,
+    currency,
+    mode: settings.dailyLimitMode === "warn" ? "warn" : "block",
+    locked: breaches.length > 0,
+    pnl,
+    trades: pnls.length,
+    consecutiveLosses,
+    breaches,
+  };
+}
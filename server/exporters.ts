@@ -0,0 +1,84 @@
+import ExcelJS from "exceljs";
+import { getTableColumns } from "drizzle-orm";
+import { tradeReviews, type TradeReview } from "@shared/schema";
+
+export const exportFormats = ["csv", "json", "xlsx"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Column order follows the table definition so new trade fields are exported automatically
+const columns = Object.keys(getTableColumns(tradeReviews)) as (keyof TradeReview)[];
+
+type FlatValue = string | number | boolean | null;
+
+function flatten(trade: TradeReview): Record<string, FlatValue> {
+  const row: Record<string, FlatValue> = {};
+  for (const column of columns) {
+    const value: unknown = trade[column];
+    if (Array.isArray(value)) {
+      row[column] = value.join("; ");
+    } else if (value instanceof Date) {
+      row[column] = value.toISOString();
+    } else {
+      row[column] = (value ?? null) as FlatValue;
+    }
+  }
+  return row;
+}
+
+function isNumeric(text: string): boolean {
+  return text.trim() !== "" && !isNaN(Number(text));
+}
+
+// Free text (notes, lessons, setups) starting with = + - @ would run as a
+// formula when the file is opened in a spreadsheet, so it is quoted as text
+function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) && !isNumeric(text) ? `'${text}` : text;
+}
+
+function escapeCsv(value: FlatValue): string {
+  if (value === null) return "";
+  const text = neutralizeFormula(String(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(trades: TradeReview[]): string {
+  const lines = [columns.join(",")];
+  for (const trade of trades) {
+    const row = flatten(trade);
+    lines.push(columns.map(column => escapeCsv(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+// Numeric text columns (prices, P&L) become real numbers so spreadsheets can sum them
+function toSpreadsheetValue(value: FlatValue): FlatValue {
+  if (typeof value === "string") {
+    return isNumeric(value) ? Number(value) : neutralizeFormula(value);
+  }
+  return value;
+}
+
+async function toXlsx(trades: TradeReview[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Trades");
+  sheet.addRow(columns);
+  for (const trade of trades) {
+    const row = flatten(trade);
+    sheet.addRow(columns.map(column => toSpreadsheetValue(row[column])));
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export async function exportTrades(trades: TradeReview[], format: ExportFormat): Promise<{ body: string | Buffer; contentType: string }> {
+  switch (format) {
+    case "csv":
+      return { body: toCsv(trades), contentType: "text/csv; charset=utf-8" };
+    case "xlsx":
+      return {
+        body: await toXlsx(trades),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      };
+    case "json":
+      return { body: JSON.stringify(trades, null, 2), contentType: "application/json; charset=utf-8" };
+  }
+}
@@ -0,0 +1,84 @@
+import type { FxRate, TradeReview } from "@shared/schema";
+import { formatDecimal, toNumber } from "@shared/trade-math";
+
+export type FxConverter = (amount: number, currency: string, date: string) => number | null;
+
+export interface BaseCurrencyTrades {
+  currency: string;
+  trades: TradeReview[]; // amounts converted into currency
+  unconverted: TradeReview[]; // no rate on or before the trade date
+}
+
+// Rates are looked up for the trade date, falling back to the most recent
+// earlier date. A rate quoted the other way round (base -> currency) is
+// inverted, so a table of USD/JPY rates serves both directions.
+export function createFxConverter(rates: FxRate[], baseCurrency: string): FxConverter {
+  const byPair = new Map<string, { date: string; rate: number }[]>();
+  for (const rate of rates) {
+    const key = `${rate.fromCurrency}/${rate.toCurrency}`;
+    const value = toNumber(rate.rate);
+    if (!value) continue;
+    byPair.set(key, [...(byPair.get(key) || []), { date: rate.date, rate: value }]);
+  }
+  byPair.forEach(series => series.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const latestOnOrBefore = (key: string, date: string) => {
+    const series = byPair.get(key) || [];
+    let found: number | null = null;
+    for (const point of series) {
+      if (point.date > date) break;
+      found = point.rate;
+    }
+    return found;
+  };
+
+  return (amount, currency, date) => {
+    if (currency === baseCurrency) return amount;
+
+    const direct = latestOnOrBefore(`${currency}/${baseCurrency}`, date);
+    if (direct !== null) return amount * direct;
+
+    const inverse = latestOnOrBefore(`${baseCurrency}/${currency}`, date);
+    if (inverse !== null) return amount / inverse;
+
+    return null;
+  };
+}
+
+// Restates a point value quoted in the instrument's currency in the trade's
+// currency, so prices give P&L and risk comparable with what the broker
+// reported (an MT5 deposit currency, say). Null when no rate is known.
+export function convertPointValue(pointValue: number, quoteCurrency: string | null, currency: string, date: string, rates: FxRate[]): number | null {
+  if (!quoteCurrency || quoteCurrency === currency) return pointValue;
+  return createFxConverter(rates, currency)(pointValue, quoteCurrency, date);
+}
+
+const MONEY_FIELDS = ["pnl", "pnlComputed", "commission", "swap", "fees", "initialRisk"] as const;
+
+export function convertTradeToBase(trade: TradeReview, convert: FxConverter, baseCurrency: string): TradeReview | null {
+  const currency = trade.currency || baseCurrency;
+  if (currency === baseCurrency) return trade;
+
+  // Probe with 1 so trades with no amounts yet still need a rate
+  if (convert(1, currency, trade.date) === null) return null;
+
+  const converted: TradeReview = { ...trade, currency: baseCurrency };
+  for (const field of MONEY_FIELDS) {
+    const amount = toNumber(trade[field]);
+    converted[field] = amount === null ? trade[field] : formatDecimal(convert(amount, currency, trade.date)!, 2);
+  }
+  return converted;
+}
+
+export function convertTradesToBase(trades: TradeReview[], rates: FxRate[], baseCurrency: string): BaseCurrencyTrades {
+  const convert = createFxConverter(rates, baseCurrency);
+  const result: BaseCurrencyTrades = { currency: baseCurrency, trades: [], unconverted: [] };
+
+  for (const trade of trades) {
+    const converted = convertTradeToBase(trade, convert, baseCurrency);
+    if (converted) result.trades.push(converted);
+    else result.unconverted.push(trade);
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+import type { Habit, HabitCompletion, InsertHabitCompletion, TradeReview } from "@shared/schema";
+
+// Rules that tick a habit from data already in the app. Trade rules are only
+// evaluated on days with trades, so quiet days don't count towards a streak;
+// the journal rule also counts days where only a journal entry was written.
+
+// Returns whether the habit was kept, by date; an empty map for habits without a usable rule
+export function evaluateHabitRule(habit: Habit, trades: TradeReview[], journalDates: string[]): Map<string, boolean> {
+  const tradesByDate = new Map<string, TradeReview[]>();
+  for (const trade of trades) {
+    tradesByDate.set(trade.date, [...(tradesByDate.get(trade.date) || []), trade]);
+  }
+
+  const results = new Map<string, boolean>();
+  const value = habit.ruleValue?.trim().toLowerCase() || "";
+
+  switch (habit.ruleType) {
+    case "maxTradesPerDay": {
+      const limit = parseInt(value);
+      if (isNaN(limit)) break;
+      tradesByDate.forEach((dayTrades, date) => results.set(date, dayTrades.length <= limit));
+      break;
+    }
+    case "noMistake":
+    case "noTag": {
+      if (!value) break;
+      const field = habit.ruleType === "noMistake" ? "mistakes" : "tags";
+      tradesByDate.forEach((dayTrades, date) => results.set(
+        date,
+        !dayTrades.some(trade => (trade[field] || []).some(item => item.toLowerCase() === value)),
+      ));
+      break;
+    }
+    case "journalWritten": {
+      const written = new Set(journalDates);
+      tradesByDate.forEach((_, date) => results.set(date, written.has(date)));
+      written.forEach(date => results.set(date, true));
+      break;
+    }
+  }
+  return results;
+}
+
+export interface HabitCompletionChanges {
+  insert: InsertHabitCompletion[];
+  update: HabitCompletion[]; // auto completions with their new completed value
+  remove: HabitCompletion[];
+}
+
+// Diffs what the rules say against the stored completions so they can be
+// written in bulk. Manual completions are never touched; auto ones go when the
+// rule no longer covers their day or the habit no longer has a rule.
+export function planHabitCompletionChanges(
+  habits: Habit[],
+  completions: HabitCompletion[],
+  trades: TradeReview[],
+  journalDates: string[],
+): HabitCompletionChanges {
+  const changes: HabitCompletionChanges = { insert: [], update: [], remove: [] };
+
+  for (const habit of habits) {
+    const results = habit.ruleType ? evaluateHabitRule(habit, trades, journalDates) : new Map<string, boolean>();
+    const existing = new Map(completions
+      .filter(completion => completion.habitId === habit.id)
+      .map(completion => [completion.date, completion]));
+
+    existing.forEach(completion => {
+      if (completion.source === "auto" && !results.has(completion.date)) changes.remove.push(completion);
+    });
+    results.forEach((completed, date) => {
+      const current = existing.get(date);
+      if (!current) {
+        changes.insert.push({ habitId: habit.id, date, completed });
+      } else if (current.source === "auto" && current.completed !== completed) {
+        changes.update.push({ ...current, completed });
+      }
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,71 @@
+// Minimal RFC 4180 style CSV parser shared by the trade importers.
+// Handles quoted fields, escaped quotes and CRLF line endings, and picks the
+// delimiter (comma, semicolon or tab) from the first line when not given.
+
+export function detectDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] || "";
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+export function parseCsv(content: string, delimiter = detectDelimiter(content)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark if the file still carries one
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  // Drop completely blank lines
+  return rows.filter(r => r.some(cell => cell !== ""));
+}
@@ -0,0 +1,54 @@
+import { insertFxRateSchema, type InsertFxRate } from "@shared/schema";
+import { parseCsv } from "./csv";
+
+// FX rate CSV upload. Expects a header row with "date" and "rate" columns plus
+// "from" (or "currency"/"base") and optionally "to" (or "quote"). Without a
+// "to" column each rate converts the "from" currency into the base currency.
+
+const COLUMN_NAMES = {
+  date: ["date"],
+  from: ["from", "fromcurrency", "currency", "base", "basecurrency"],
+  to: ["to", "tocurrency", "quote", "quotecurrency"],
+  rate: ["rate", "close", "price"],
+};
+
+export function parseFxRatesCsv(content: string, baseCurrency: string): { rates: InsertFxRate[]; errors: string[] } {
+  const [headers = [], ...rows] = parseCsv(content);
+  const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z]/g, ""));
+  const column = (names: string[]) => normalized.findIndex(header => names.includes(header));
+
+  const columns = {
+    date: column(COLUMN_NAMES.date),
+    from: column(COLUMN_NAMES.from),
+    to: column(COLUMN_NAMES.to),
+    rate: column(COLUMN_NAMES.rate),
+  };
+
+  if (columns.date === -1 || columns.from === -1 || columns.rate === -1) {
+    return { rates: [], errors: ["CSV must have date, currency and rate columns"] };
+  }
+
+  const rates: InsertFxRate[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((row, index) => {
+    if (row.every(cell => cell.trim() === "")) return;
+
+    const result = insertFxRateSchema.safeParse({
+      date: (row[columns.date] || "").trim().slice(0, 10),
+      fromCurrency: (row[columns.from] || "").trim().toUpperCase(),
+      toCurrency: columns.to === -1 ? baseCurrency : (row[columns.to] || "").trim().toUpperCase(),
+      rate: (row[columns.rate] || "").trim(),
+    });
+
+    if (result.success) {
+      rates.push(result.data);
+    } else {
+      // +2: one for the header row, one for 1-based numbering
+      const issues = result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`);
+      errors.push(`Row ${index + 2}: ${issues.join("; ")}`);
+    }
+  });
+
+  return { rates, errors };
+}
@@ -0,0 +1,164 @@
+import {
+  insertTradeReviewSchema,
+  type CsvImportPreview,
+  type InsertImportMapping,
+  type InsertTradeReview,
+  type ImportableTradeField,
+} from "@shared/schema";
+import { parseCsv } from "./csv";
+
+// Generic broker CSV import: applies a user-defined column mapping to each row,
+// converts dates and numbers according to the mapping's formats and validates
+// the result against insertTradeReviewSchema.
+
+export type ColumnMapping = Pick<InsertImportMapping, "columns" | "dateFormat" | "decimalSeparator">;
+
+const NUMERIC_FIELDS: ImportableTradeField[] = [
+  "entryPrice", "exitPrice", "quantity", "pnl", "commission", "swap", "fees", "plannedStop", "plannedTarget", "initialRisk",
+];
+const LIST_FIELDS: ImportableTradeField[] = ["tags", "mistakes"];
+
+function parseDate(value: string, format: string): string | null {
+  // Ignore any time component, e.g. "15/01/2024 10:30"
+  const datePart = value.trim().split(/[ T]/)[0];
+  const parts = datePart.split(/[^0-9]/).filter(Boolean);
+  if (parts.length !== 3) return null;
+
+  const order = format.split(/[^A-Z]/).filter(Boolean);
+  const values: Record<string, string> = {};
+  order.forEach((token, i) => {
+    values[token] = parts[i];
+  });
+
+  const year = values.YYYY;
+  const month = parseInt(values.MM);
+  const day = parseInt(values.DD);
+  if (!year || year.length !== 4 || !(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Times without an explicit offset ("Z", "+02:00") are taken as UTC
+function parseDateTime(value: string, format: string): string | null {
+  const date = parseDate(value, format);
+  const time = /(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (!date || !time) return null;
+
+  const [, hours, minutes, seconds = "00"] = time;
+  const offset = /(Z|[+-]\d{2}:?\d{2})$/.exec(value.trim())?.[1] || "Z";
+  const parsed = new Date(`${date}T${hours.padStart(2, "0")}:${minutes}:${seconds}${offset}`);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function parseNumber(value: string, decimalSeparator: string): string | null {
+  let text = value.trim().replace(/[\s ]/g, "");
+  // Accounting style negatives: "(12.50)"
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()]/g, "");
+
+  if (decimalSeparator === ",") {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  // Drop currency symbols and codes
+  text = text.replace(/[^0-9.\-+eE]/g, "");
+
+  const parsed = parseFloat(text);
+  if (isNaN(parsed)) return null;
+  return String(negative ? -Math.abs(parsed) : parsed);
+}
+
+function parseSide(value: string): string | null {
+  const side = value.trim().toLowerCase();
+  if (["long", "buy", "b"].includes(side)) return "long";
+  if (["short", "sell", "s", "sell short"].includes(side)) return "short";
+  return null;
+}
+
+function mapRow(row: string[], headers: string[], mapping: ColumnMapping): { trade: Record<string, unknown>; errors: string[] } {
+  const trade: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, header] of Object.entries(mapping.columns)) {
+    const index = headers.indexOf(header);
+    if (index === -1) continue;
+
+    const raw = (row[index] ?? "").trim();
+    if (raw === "") continue;
+
+    if (field === "date") {
+      const date = parseDate(raw, mapping.dateFormat || "YYYY-MM-DD");
+      if (date) trade.date = date;
+      else errors.push(`date: "${raw}" does not match ${mapping.dateFormat}`);
+    } else if (field === "entryTime" || field === "exitTime") {
+      const dateTime = parseDateTime(raw, mapping.dateFormat || "YYYY-MM-DD");
+      if (dateTime) trade[field] = dateTime;
+      else errors.push(`${field}: "${raw}" is not a ${mapping.dateFormat} date with a time`);
+    } else if (field === "side") {
+      const side = parseSide(raw);
+      if (side) trade.side = side;
+      else errors.push(`side: "${raw}" is not long/short or buy/sell`);
+    } else if (NUMERIC_FIELDS.includes(field as ImportableTradeField)) {
+      const number = parseNumber(raw, mapping.decimalSeparator || ".");
+      if (number !== null) trade[field] = number;
+      else errors.push(`${field}: "${raw}" is not a number`);
+    } else if (LIST_FIELDS.includes(field as ImportableTradeField)) {
+      trade[field] = raw.split(/[;|]/).map(item => item.trim()).filter(Boolean);
+    } else if (field === "currency") {
+      trade.currency = raw.toUpperCase();
+    } else if (field === "rating") {
+      const rating = parseInt(raw);
+      if (rating >= 1 && rating <= 5) trade.rating = rating;
+      else errors.push(`rating: "${raw}" must be between 1 and 5`);
+    } else {
+      trade[field] = raw;
+    }
+  }
+
+  return { trade, errors };
+}
+
+export function previewCsvImport(content: string, mapping: ColumnMapping): CsvImportPreview {
+  const [headers = [], ...dataRows] = parseCsv(content);
+  const rows: CsvImportPreview["rows"] = [];
+
+  dataRows.forEach((row, index) => {
+    const { trade, errors } = mapRow(row, headers, mapping);
+    const result = insertTradeReviewSchema.safeParse(trade);
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const field = issue.path.join(".") || "row";
+        // Conversion errors above already explain fields we could not parse
+        if (!errors.some(error => error.startsWith(`${field}:`))) {
+          errors.push(`${field}: ${issue.message}`);
+        }
+      }
+    }
+
+    rows.push({
+      // +2: one for the header row, one for 1-based numbering
+      rowNumber: index + 2,
+      trade: result.success && errors.length === 0 ? result.data : null,
+      errors,
+    });
+  });
+
+  const validCount = rows.filter(row => row.trade).length;
+
+  return {
+    headers,
+    rows,
+    validCount,
+    errorCount: rows.length - validCount,
+  };
+}
+
+export function getValidTrades(preview: CsvImportPreview): InsertTradeReview[] {
+  return preview.rows
+    .map(row => row.trade)
+    .filter((trade): trade is InsertTradeReview => trade !== null);
+}
@@ -0,0 +1,294 @@
+import type { InsertTradeReview } from "@shared/schema";
+import { parseCsv } from "./csv";
+
+// Parser for MetaTrader 5 "History" reports. Both the HTML report (which is
+// also what the terminal writes for its "Excel" export) and CSV exports are
+// supported. Only the Deals section is used: deals are grouped by position ID
+// into entries and exits and each position becomes one trade review.
+
+interface Mt5Deal {
+  time: string;
+  deal: string;
+  symbol: string;
+  type: string;
+  direction: string;
+  volume: number;
+  price: number;
+  order: string;
+  position: string | null;
+  commission: number;
+  fee: number;
+  swap: number;
+  profit: number;
+}
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&nbsp;": " ",
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, match => ENTITIES[match])
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code)));
+}
+
+function parseHtmlRows(html: string): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
+  const cellPattern = /<t([dh])([^>]*)>([\s\S]*?)<\/t\1>/gi;
+
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowPattern.exec(html)) !== null) {
+    const cells: string[] = [];
+    let cellMatch: RegExpExecArray | null;
+    cellPattern.lastIndex = 0;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[1])) !== null) {
+      const attributes = cellMatch[2];
+      const text = decodeEntities(cellMatch[3].replace(/<[^>]+>/g, "")).trim();
+      const colspan = parseInt(/colspan="?(\d+)/i.exec(attributes)?.[1] || "1");
+
+      cells.push(text);
+      for (let i = 1; i < colspan; i++) cells.push("");
+    }
+
+    if (cells.some(cell => cell !== "")) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) return 0;
+  // MT5 groups thousands with (non-breaking) spaces, e.g. "1 234.56"
+  const parsed = parseFloat(value.replace(/[\s ]/g, ""));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function formatNumber(value: number, digits = 5): string {
+  return String(parseFloat(value.toFixed(digits)));
+}
+
+// "2024.01.15 10:30:45" -> "2024-01-15"
+function toIsoDate(time: string): string {
+  return time.slice(0, 10).replace(/\./g, "-");
+}
+
+// Reports show trade server time without an offset; it is stored as UTC
+function toTimestamp(time: string): Date | null {
+  const parsed = new Date(`${toIsoDate(time)}T${time.slice(11, 19) || "00:00:00"}Z`);
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function extractDeals(rows: string[][]): Mt5Deal[] {
+  const normalize = (cell: string) => cell.toLowerCase().replace(/[^a-z]/g, "");
+  const headerIndex = rows.findIndex(row => {
+    const cells = row.map(normalize);
+    return cells.includes("deal") && cells.includes("direction");
+  });
+
+  if (headerIndex === -1) return [];
+
+  const header = rows[headerIndex].map(normalize);
+  const column = (name: string) => header.indexOf(name);
+  const columns = {
+    time: column("time"),
+    deal: column("deal"),
+    symbol: column("symbol"),
+    type: column("type"),
+    direction: column("direction"),
+    volume: column("volume"),
+    price: column("price"),
+    order: column("order"),
+    position: column("position"),
+    commission: column("commission"),
+    fee: column("fee"),
+    swap: column("swap"),
+    profit: column("profit"),
+  };
+
+  const required = ["time", "deal", "symbol", "type", "direction", "volume", "price"] as const;
+  const missing = required.filter(name => columns[name] === -1);
+  if (missing.length > 0) {
+    throw new Error(`MT5 report Deals table is missing the ${missing.join(", ")} column${missing.length > 1 ? "s" : ""}`);
+  }
+
+  const deals: Mt5Deal[] = [];
+
+  for (const row of rows.slice(headerIndex + 1)) {
+    const dealId = row[columns.deal];
+    // The Deals table ends at the first row without a numeric ticket (totals, next section)
+    if (!dealId || !/^\d+$/.test(dealId)) break;
+
+    const type = (row[columns.type] || "").toLowerCase();
+    // Skip balance, credit and other non-trading operations
+    if (type !== "buy" && type !== "sell") continue;
+
+    const time = row[columns.time] || "";
+    if (!toTimestamp(time) || !row[columns.symbol]) {
+      throw new Error(`MT5 deal ${dealId} has no valid time or symbol`);
+    }
+
+    deals.push({
+      time,
+      deal: dealId,
+      symbol: row[columns.symbol] || "",
+      type,
+      direction: (row[columns.direction] || "").toLowerCase(),
+      volume: parseNumber(row[columns.volume]),
+      price: parseNumber(row[columns.price]),
+      order: row[columns.order] || "",
+      position: columns.position >= 0 ? row[columns.position] || null : null,
+      commission: parseNumber(row[columns.commission]),
+      fee: parseNumber(row[columns.fee]),
+      swap: parseNumber(row[columns.swap]),
+      profit: parseNumber(row[columns.profit]),
+    });
+  }
+
+  return deals;
+}
+
+// Part of a deal's volume, with commission, fee and swap split pro rata
+function sliceDeal(deal: Mt5Deal, volume: number, direction: string, profit: number): Mt5Deal {
+  if (volume === deal.volume && direction === deal.direction) return { ...deal, profit };
+  const share = volume / deal.volume;
+  return {
+    ...deal,
+    direction,
+    volume,
+    commission: deal.commission * share,
+    fee: deal.fee * share,
+    swap: deal.swap * share,
+    profit,
+  };
+}
+
+function groupByPosition(deals: Mt5Deal[]): Map<string, Mt5Deal[]> {
+  const groups = new Map<string, Mt5Deal[]>();
+
+  if (deals.every(deal => deal.position)) {
+    for (const deal of deals) {
+      const group = groups.get(deal.position!) || [];
+      group.push(deal);
+      groups.set(deal.position!, group);
+    }
+    return groups;
+  }
+
+  // The HTML report has no Position column. A position's ID is the ticket of
+  // the order that opened it, so entries are keyed by order and exits are
+  // matched FIFO against open positions of the same symbol and direction:
+  // on hedging accounts a buy and a sell can be open side by side.
+  const open = new Map<string, { id: string; remaining: number }[]>();
+
+  const openPosition = (deal: Mt5Deal) => {
+    const id = deal.order || deal.deal;
+    groups.set(id, [...(groups.get(id) || []), deal]);
+    const key = `${deal.symbol}:${deal.type}`;
+    open.set(key, [...(open.get(key) || []), { id, remaining: deal.volume }]);
+  };
+
+  for (const deal of deals) {
+    if (deal.direction === "in") {
+      openPosition(deal);
+      continue;
+    }
+
+    // A sell closes long positions and a buy closes short ones
+    const queue = open.get(`${deal.symbol}:${deal.type === "buy" ? "sell" : "buy"}`) || [];
+    const matches: { id: string; volume: number }[] = [];
+    let unmatched = deal.volume;
+    for (const entry of queue) {
+      if (unmatched <= 1e-9) break;
+      const volume = Math.min(entry.remaining, unmatched);
+      if (volume <= 1e-9) continue;
+      matches.push({ id: entry.id, volume });
+      entry.remaining -= volume;
+      unmatched -= volume;
+    }
+
+    // The realized profit belongs to the closed volume; costs are shared by volume
+    const closed = deal.volume - unmatched;
+    for (const match of matches) {
+      groups.get(match.id)!.push(sliceDeal(deal, match.volume, "out", deal.profit * match.volume / closed));
+    }
+
+    // An in/out deal reverses the position: what it doesn't close opens a new one
+    if (deal.direction === "in/out" && unmatched > 1e-9) {
+      openPosition(sliceDeal(deal, unmatched, "in", 0));
+    } else if (matches.length === 0) {
+      groups.set(deal.deal, [deal]);
+    }
+  }
+
+  return groups;
+}
+
+function weightedPrice(deals: Mt5Deal[]): number {
+  const volume = deals.reduce((sum, d) => sum + d.volume, 0);
+  if (volume === 0) return 0;
+  return deals.reduce((sum, d) => sum + d.price * d.volume, 0) / volume;
+}
+
+// The report header reads e.g. "Account: 5012345 (USD, MetaQuotes-Demo, demo, Hedge)";
+// profits, commissions and swaps are all in that deposit currency.
+function detectAccountCurrency(rows: string[][]): string | null {
+  for (const row of rows) {
+    const text = row.join(" ");
+    const match = /Account:\s*\d+\s*\(([A-Z]{3})\b/.exec(text);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function toTradeReview(positionId: string, deals: Mt5Deal[], currency: string | null): InsertTradeReview | null {
+  const entries = deals.filter(d => d.direction === "in");
+  const exits = deals.filter(d => d.direction !== "in");
+  if (entries.length === 0) return null;
+
+  // MT5 reports commission and fees as negative amounts; we store them as costs
+  const commission = -deals.reduce((sum, d) => sum + d.commission, 0);
+  const fees = -deals.reduce((sum, d) => sum + d.fee, 0);
+  const swap = deals.reduce((sum, d) => sum + d.swap, 0);
+  const profit = deals.reduce((sum, d) => sum + d.profit, 0);
+
+  return {
+    date: toIsoDate(entries[0].time),
+    entryTime: toTimestamp(entries[0].time),
+    exitTime: exits.length > 0 ? toTimestamp(exits[exits.length - 1].time) : null,
+    symbol: entries[0].symbol,
+    side: entries[0].type === "buy" ? "long" : "short",
+    entryPrice: formatNumber(weightedPrice(entries)),
+    exitPrice: exits.length > 0 ? formatNumber(weightedPrice(exits)) : null,
+    quantity: formatNumber(entries.reduce((sum, d) => sum + d.volume, 0), 2),
+    commission: formatNumber(commission, 2),
+    swap: formatNumber(swap, 2),
+    fees: formatNumber(fees, 2),
+    currency,
+    pnl: exits.length > 0 ? formatNumber(profit, 2) : null,
+    externalId: `mt5:${positionId}`,
+  };
+}
+
+export function parseMt5Report(content: string): InsertTradeReview[] {
+  const isHtml = /<table[\s>]/i.test(content);
+  const rows = isHtml ? parseHtmlRows(content) : parseCsv(content);
+  const deals = extractDeals(rows);
+  const currency = detectAccountCurrency(rows);
+  const trades: InsertTradeReview[] = [];
+
+  groupByPosition(deals).forEach((positionDeals, positionId) => {
+    const trade = toTradeReview(positionId, positionDeals, currency);
+    if (trade) trades.push(trade);
+  });
+
+  return trades;
+}
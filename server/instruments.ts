@@ -0,0 +1,51 @@
+import type { Instrument } from "@shared/schema";
+import { toNumber } from "@shared/trade-math";
+import { getDefaultPointValue, isForexPair, normalizeSymbol } from "./contract-specs";
+
+export interface ResolvedInstrument {
+  instrumentId: number | null;
+  symbol: string;
+  pointValue: number;
+  quoteCurrency: string | null; // currency prices, and so computed P&L, are quoted in
+}
+
+// "eurusd", "EUR/USD" and "EUR-USD" all match an instrument whose symbol or
+// one of whose aliases normalizes to "EURUSD".
+export function matchInstrument(instruments: Instrument[], symbol: string): Instrument | undefined {
+  const normalized = normalizeSymbol(symbol);
+  return instruments.find(instrument =>
+    normalizeSymbol(instrument.symbol) === normalized ||
+    (instrument.aliases || []).some(alias => normalizeSymbol(alias) === normalized)
+  );
+}
+
+export function getInstrumentPointValue(instrument: Instrument): number {
+  const tickSize = toNumber(instrument.tickSize);
+  const tickValue = toNumber(instrument.tickValue);
+  if (tickSize && tickValue !== null) return tickValue / tickSize;
+
+  const contractSize = toNumber(instrument.contractSize);
+  if (contractSize) return contractSize;
+
+  return getDefaultPointValue(instrument.symbol);
+}
+
+export function resolveInstrument(instruments: Instrument[], symbol: string): ResolvedInstrument {
+  const instrument = matchInstrument(instruments, symbol);
+  if (instrument) {
+    return {
+      instrumentId: instrument.id,
+      symbol: instrument.symbol,
+      pointValue: getInstrumentPointValue(instrument),
+      quoteCurrency: instrument.quoteCurrency,
+    };
+  }
+
+  const normalized = normalizeSymbol(symbol);
+  return {
+    instrumentId: null,
+    symbol: symbol.trim().toUpperCase(),
+    pointValue: getDefaultPointValue(symbol),
+    quoteCurrency: isForexPair(normalized) ? normalized.slice(3, 6) : null,
+  };
+}
@@ -0,0 +1,133 @@
+import { MAX_TRADES_PER_SIMULATION, type Distribution, type DistributionBucket, type MonteCarloResult, type PnlBasis } from "@shared/schema";
+import { getTradePnl, round2 } from "./analytics";
+import type { BaseCurrencyTrades } from "./fx";
+
+// Monte Carlo resampling of historical trade P&L. Each simulation draws trades
+// with replacement, so it keeps the distribution of outcomes but not their
+// order; streaks and drawdowns come out as they would under random sequencing.
+
+export interface MonteCarloOptions {
+  basis: PnlBasis;
+  simulations: number;
+  tradesPerSimulation?: number;
+  startingBalance: number;
+  ruinPercent: number;
+  seed?: number;
+}
+
+const HISTOGRAM_BUCKETS = 20;
+
+// mulberry32: small, fast and seedable, so a run can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function summarizeDistribution(values: number[]): Distribution {
+  const sorted = Float64Array.from(values).sort();
+  const list = Array.from(sorted);
+  const min = list[0];
+  const max = list[list.length - 1];
+
+  const histogram: DistributionBucket[] = [];
+  const width = (max - min) / HISTOGRAM_BUCKETS;
+  if (width === 0) {
+    histogram.push({ from: round2(min), to: round2(max), count: list.length });
+  } else {
+    for (let i = 0; i < HISTOGRAM_BUCKETS; i++) {
+      histogram.push({ from: round2(min + i * width), to: round2(min + (i + 1) * width), count: 0 });
+    }
+    for (const value of list) {
+      // The maximum belongs in the last bucket rather than one past it
+      histogram[Math.min(Math.floor((value - min) / width), HISTOGRAM_BUCKETS - 1)].count++;
+    }
+  }
+
+  return {
+    mean: round2(list.reduce((sum, value) => sum + value, 0) / list.length),
+    p5: round2(percentile(list, 0.05)),
+    p25: round2(percentile(list, 0.25)),
+    p50: round2(percentile(list, 0.5)),
+    p75: round2(percentile(list, 0.75)),
+    p95: round2(percentile(list, 0.95)),
+    histogram,
+  };
+}
+
+// Returns null when there are no trades with P&L to resample
+export function runMonteCarlo({ trades, currency }: BaseCurrencyTrades, options: MonteCarloOptions): MonteCarloResult | null {
+  const pnls = trades
+    .map(trade => getTradePnl(trade, options.basis))
+    .filter((pnl): pnl is number => pnl !== null);
+  if (pnls.length === 0) return null;
+
+  const tradesPerSimulation = options.tradesPerSimulation ?? Math.min(pnls.length, MAX_TRADES_PER_SIMULATION);
+  const ruinBalance = options.startingBalance * (1 - options.ruinPercent / 100);
+  const random = createRandom(options.seed ?? Date.now());
+
+  const finalEquity: number[] = [];
+  const maxDrawdown: number[] = [];
+  const maxDrawdownPercent: number[] = [];
+  const longestLosingStreak: number[] = [];
+  let ruined = 0;
+
+  for (let simulation = 0; simulation < options.simulations; simulation++) {
+    let equity = options.startingBalance;
+    let peak = equity;
+    let worstDrawdown = 0;
+    let worstDrawdownPercent = 0;
+    let streak = 0;
+    let longestStreak = 0;
+    let hitRuin = false;
+
+    for (let i = 0; i < tradesPerSimulation; i++) {
+      const pnl = pnls[Math.floor(random() * pnls.length)];
+      equity += pnl;
+      peak = Math.max(peak, equity);
+
+      const drawdown = peak - equity;
+      worstDrawdown = Math.max(worstDrawdown, drawdown);
+      worstDrawdownPercent = Math.max(worstDrawdownPercent, (drawdown / peak) * 100);
+
+      streak = pnl < 0 ? streak + 1 : 0;
+      longestStreak = Math.max(longestStreak, streak);
+
+      // Keep trading past ruin so the other distributions aren't cut short
+      if (equity <= ruinBalance) hitRuin = true;
+    }
+
+    finalEquity.push(equity);
+    maxDrawdown.push(worstDrawdown);
+    maxDrawdownPercent.push(worstDrawdownPercent);
+    longestLosingStreak.push(longestStreak);
+    if (hitRuin) ruined++;
+  }
+
+  return {
+    basis: options.basis,
+    currency,
+    sampleSize: pnls.length,
+    simulations: options.simulations,
+    tradesPerSimulation,
+    startingBalance: options.startingBalance,
+    ruinBalance: round2(ruinBalance),
+    riskOfRuin: round2((ruined / options.simulations) * 100),
+    finalEquity: summarizeDistribution(finalEquity),
+    maxDrawdown: summarizeDistribution(maxDrawdown),
+    maxDrawdownPercent: summarizeDistribution(maxDrawdownPercent),
+    longestLosingStreak: summarizeDistribution(longestLosingStreak),
+  };
+}
@@ -0,0 +1,82 @@
+import { computeGrossPnl, computePlannedRisk, formatDecimal, toNumber, type PlanFields, type PriceFields } from "@shared/trade-math";
+import type { TradeReview } from "@shared/schema";
+
+// Differences below this are rounding noise rather than a deliberate override
+const OVERRIDE_TOLERANCE = 0.01;
+
+// Trade fields that feed the computed P&L; updates touching none of them keep it as is
+const PNL_INPUTS = ["symbol", "side", "entryPrice", "exitPrice", "quantity", "pnl", "currency"];
+
+// Further fields that feed the initial risk and R-multiple
+const RISK_INPUTS = ["plannedStop", "initialRisk"];
+
+export interface PnlFields {
+  pnl: string | null;
+  pnlComputed: string | null;
+  pnlOverride: boolean;
+}
+
+export interface RiskFields {
+  initialRisk: string | null;
+  rMultiple: string | null;
+}
+
+export function affectsPnl(updates: object): boolean {
+  return PNL_INPUTS.some(field => field in updates);
+}
+
+export function affectsRisk(updates: object): boolean {
+  return affectsPnl(updates) || RISK_INPUTS.some(field => field in updates);
+}
+
+// Fills in P&L from prices when none was typed, and flags a typed P&L that
+// disagrees with the computed one. pointValue is in the trade's currency; it is
+// null when no FX rate covers the trade date, and then nothing is computed.
+export function resolvePnl(trade: PriceFields, manualPnl: string | null | undefined, pointValue: number | null): PnlFields {
+  const computed = pointValue !== null ? computeGrossPnl(trade, pointValue) : null;
+  const pnlComputed = computed !== null ? formatDecimal(computed, 2) : null;
+  const manual = toNumber(manualPnl);
+
+  if (manual === null) {
+    return { pnl: pnlComputed, pnlComputed, pnlOverride: false };
+  }
+
+  return {
+    pnl: manualPnl!.trim(),
+    pnlComputed,
+    pnlOverride: computed !== null && Math.abs(manual - computed) >= OVERRIDE_TOLERANCE,
+  };
+}
+
+// On update a P&L in the payload is a new manual value; otherwise an existing
+// override is kept and a previously computed P&L is recalculated.
+export function manualPnlForUpdate(existing: TradeReview, updates: { pnl?: string | null }): string | null | undefined {
+  if ("pnl" in updates) return updates.pnl;
+  return existing.pnlOverride ? existing.pnl : undefined;
+}
+
+// A typed initial risk wins; without one it is derived from the planned stop.
+// The R-multiple is the gross P&L in units of that risk.
+export function resolveRisk(trade: PlanFields & { pnl: string | null }, manualRisk: string | null | undefined, pointValue: number | null): RiskFields {
+  const manual = toNumber(manualRisk);
+  const risk = manual !== null && manual > 0 ? manual : pointValue !== null ? computePlannedRisk(trade, pointValue) : null;
+  if (risk === null) return { initialRisk: null, rMultiple: null };
+
+  const pnl = toNumber(trade.pnl);
+  return {
+    initialRisk: risk === manual ? manualRisk!.trim() : formatDecimal(risk, 2),
+    rMultiple: pnl !== null ? formatDecimal(pnl / risk, 2) : null,
+  };
+}
+
+// Like manualPnlForUpdate, but there is no override flag: a stored risk that
+// no longer matches the one derived from the stop must have been typed.
+export function manualRiskForUpdate(existing: TradeReview, updates: { initialRisk?: string | null }, pointValue: number | null): string | null | undefined {
+  if ("initialRisk" in updates) return updates.initialRisk;
+
+  const stored = toNumber(existing.initialRisk);
+  if (stored === null) return undefined;
+
+  const derived = pointValue !== null ? computePlannedRisk(existing, pointValue) : null;
+  return derived === null || Math.abs(stored - derived) >= OVERRIDE_TOLERANCE ? existing.initialRisk : undefined;
+}
@@ -0,0 +1,84 @@
+import type { AccountSettings, FxRate, Instrument, PositionSizeRequest, PositionSizeResult, RiskMetrics } from "@shared/schema";
+import { computePositionSize, toNumber } from "@shared/trade-math";
+import { createFxConverter } from "./fx";
+import { resolveInstrument, matchInstrument } from "./instruments";
+import { isForexPair } from "./contract-specs";
+import { round2 } from "./analytics";
+
+export interface PositionSizeContext {
+  instruments: Instrument[];
+  settings: AccountSettings;
+  rates: FxRate[];
+  riskMetrics: RiskMetrics | undefined; // latest on or before the request date
+}
+
+const UNITS: Record<string, PositionSizeResult["unit"]> = {
+  forex: "lots",
+  futures: "contracts",
+  stock: "shares",
+};
+
+// Smallest tradable increment when the request doesn't give one
+const DEFAULT_STEPS: Record<string, number> = {
+  forex: 0.01,
+  crypto: 0.001,
+};
+
+// Unknown symbols are classed from their default contract spec: a currency
+// pair is forex, anything with a multiplier is treated as a future
+function guessAssetClass(symbol: string, pointValue: number): string {
+  if (isForexPair(symbol)) return "forex";
+  return pointValue !== 1 ? "futures" : "stock";
+}
+
+export function sizePosition(request: PositionSizeRequest, context: PositionSizeContext): PositionSizeResult | { message: string } {
+  const date = request.date || new Date().toISOString().slice(0, 10);
+
+  const settingsBalance = toNumber(context.settings.startingBalance);
+  // A derived balance is only a balance when it was built on a starting balance;
+  // otherwise it is cumulative P&L
+  const metricsTrusted = context.riskMetrics?.source === "manual" || settingsBalance !== null;
+  const metricsBalance = metricsTrusted ? toNumber(context.riskMetrics?.accountBalance) : null;
+  const [accountBalance, balanceSource]: [number | null, PositionSizeResult["balanceSource"]] =
+    request.accountBalance !== undefined ? [request.accountBalance, "request"]
+      : metricsBalance !== null ? [metricsBalance, "risk-metrics"]
+        : [settingsBalance, "account-settings"];
+  if (accountBalance === null || accountBalance <= 0) {
+    return { message: "Enter an account balance or record one in risk metrics" };
+  }
+
+  const resolved = resolveInstrument(context.instruments, request.symbol);
+  const pointValue = request.tickSize && request.tickValue ? request.tickValue / request.tickSize : resolved.pointValue;
+  const assetClass = matchInstrument(context.instruments, request.symbol)?.assetClass || guessAssetClass(resolved.symbol, resolved.pointValue);
+  const step = request.quantityStep || DEFAULT_STEPS[assetClass] || 1;
+
+  const baseCurrency = context.settings.baseCurrency;
+  const quoteCurrency = resolved.quoteCurrency || baseCurrency;
+  const riskAmount = accountBalance * (request.riskPercent / 100);
+
+  // Point values are quoted in the instrument's currency, so the risk budget is converted into it
+  const riskInQuote = createFxConverter(context.rates, quoteCurrency)(riskAmount, baseCurrency, date);
+  if (riskInQuote === null) {
+    return { message: `No FX rate between ${baseCurrency} and ${quoteCurrency} on or before ${date}` };
+  }
+
+  const size = computePositionSize(riskInQuote, request.entryPrice, request.stopPrice, pointValue, step);
+  if (!size) {
+    return { message: "Stop must differ from entry" };
+  }
+
+  return {
+    symbol: resolved.symbol,
+    unit: UNITS[assetClass] || "units",
+    quantity: size.quantity,
+    quantityStep: step,
+    accountBalance,
+    balanceSource,
+    currency: baseCurrency,
+    quoteCurrency,
+    riskAmount: round2(riskAmount),
+    actualRisk: round2(riskAmount * (size.quantity * size.riskPerUnit) / riskInQuote),
+    pointValue,
+    riskPerUnit: round2(size.riskPerUnit),
+  };
+}
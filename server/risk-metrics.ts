@@ -0,0 +1,65 @@
+import type { InsertRiskMetrics } from "@shared/schema";
+import { formatDecimal, toNumber } from "@shared/trade-math";
+import { getTradePnl, sortTradesChronologically } from "./analytics";
+import type { BaseCurrencyTrades } from "./fx";
+
+// Daily risk metrics derived from trades, one row per trading day:
+// - accountBalance: closing balance after that day's closed trades
+// - maxDrawdown: deepest peak-to-trough drop in balance so far, trade by trade
+// Both need a starting balance and are left empty without one.
+// - dailyRisk: initial risk of the day's closed trades
+// - positionSize: average quantity of the day's trades
+// - riskRewardRatio: net P&L over risk taken, for closed trades with a known risk
+
+interface DayTotals {
+  pnl: number;
+  risk: number;
+  riskedPnl: number;
+  quantities: number[];
+}
+
+export function deriveRiskMetrics({ trades }: BaseCurrencyTrades, startingBalance: number | null): InsertRiskMetrics[] {
+  const days = new Map<string, DayTotals>();
+  const drawdownByDay = new Map<string, number>();
+  let balance = startingBalance ?? 0;
+  let peak = balance;
+  let maxDrawdown = 0;
+
+  for (const trade of sortTradesChronologically(trades)) {
+    const day = days.get(trade.date) || { pnl: 0, risk: 0, riskedPnl: 0, quantities: [] };
+    days.set(trade.date, day);
+
+    const quantity = toNumber(trade.quantity);
+    if (quantity !== null) day.quantities.push(quantity);
+
+    const pnl = getTradePnl(trade, "net");
+    if (pnl !== null) {
+      day.pnl += pnl;
+      balance += pnl;
+      peak = Math.max(peak, balance);
+      maxDrawdown = Math.max(maxDrawdown, peak - balance);
+
+      const risk = toNumber(trade.initialRisk);
+      if (risk) {
+        day.risk += risk;
+        day.riskedPnl += pnl;
+      }
+    }
+    drawdownByDay.set(trade.date, maxDrawdown);
+  }
+
+  let closing = startingBalance ?? 0;
+  return Array.from(days, ([date, day]) => {
+    closing += day.pnl;
+    return {
+      date,
+      accountBalance: startingBalance !== null ? formatDecimal(closing, 2) : null,
+      maxDrawdown: startingBalance !== null ? formatDecimal(drawdownByDay.get(date)!, 2) : null,
+      dailyRisk: formatDecimal(day.risk, 2),
+      positionSize: day.quantities.length > 0
+        ? formatDecimal(day.quantities.reduce((sum, value) => sum + value, 0) / day.quantities.length)
+        : null,
+      riskRewardRatio: day.risk > 0 ? formatDecimal(day.riskedPnl / day.risk, 2) : null,
+    };
+  });
+}
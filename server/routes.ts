@@ -1,17 +1,126 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
+import { z } from "zod";
 import { storage } from "./storage";
+import { log } from "./vite";
+import { parseMt5Report } from "./importers/mt5";
+import { previewCsvImport, getValidTrades } from "./importers/mapping";
+import { parseFxRatesCsv } from "./importers/fx-rates";
+import { exportTrades, exportFormats } from "./exporters";
+import { sizePosition } from "./position-size";
+import { toNumber } from "@shared/trade-math";
 import { 
   insertHabitSchema,
   insertHabitCompletionSchema,
   insertEmotionalCheckInSchema,
   insertJournalEntrySchema,
   insertTradeReviewSchema,
+  insertTradeExecutionSchema,
   insertGoalTrackingSchema,
-  insertRiskMetricsSchema
+  insertRiskMetricsSchema,
+  insertImportMappingSchema,
+  insertInstrumentSchema,
+  insertAccountSettingsSchema,
+  insertChallengeSchema,
+  breakdownDimensions,
+  monteCarloRequestSchema,
+  positionSizeRequestSchema,
+  tiltEventKinds,
+  rollingWindowUnits,
+  type FxRateImportResult
 } from "@shared/schema";
 
+const tradeWithExecutionsSchema = insertTradeReviewSchema.extend({
+  executions: z.array(insertTradeExecutionSchema).optional(),
+});
+
+// Only new trades pass through the daily circuit breaker
+const newTradeSchema = tradeWithExecutionsSchema.extend({
+  overrideReason: z.string().trim().optional(), // required to add a trade on a locked day in block mode
+});
+
+const csvImportSchema = z.object({
+  content: z.string().min(1),
+  mapping: insertImportMappingSchema.omit({ broker: true }),
+});
+
+// Query parameters shared by the trade analytics endpoints
+const analyticsQuerySchema = z.object({
+  startDate: z.string({ required_error: "Start date and end date are required" }),
+  endDate: z.string({ required_error: "Start date and end date are required" }),
+  basis: z.enum(["gross", "net"], { message: "Basis must be gross or net" }).optional(),
+});
+
+const optionalRangeQuerySchema = analyticsQuerySchema.partial({ startDate: true, endDate: true });
+
+const breakdownQuerySchema = optionalRangeQuerySchema.extend({
+  by: z.enum(breakdownDimensions, { message: `by must be one of ${breakdownDimensions.join(", ")}` }),
+});
+
+const tiltEventsQuerySchema = optionalRangeQuerySchema.extend({
+  kind: z.enum(tiltEventKinds, { message: `kind must be one of ${tiltEventKinds.join(", ")}` }).optional(),
+});
+
+const rollingQuerySchema = optionalRangeQuerySchema.extend({
+  window: z.coerce.number({ message: "Window must be a number" }).int().min(2, "Window must be at least 2").max(500, "Window cannot exceed 500").default(20),
+  unit: z.enum(rollingWindowUnits, { message: "Unit must be trades or days" }).default("trades"),
+});
+
+// A year and a bit, enough for a year view that starts mid-week
+const MAX_CALENDAR_DAYS = 400;
+
+const equityCurveQuerySchema = optionalRangeQuerySchema.extend({
+  startingBalance: z.coerce.number({ message: "Starting balance must be a number" }).optional(),
+});
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Derived data is rebuilt after the write it depends on is saved, so a failure
+// is logged rather than answered with an error: the client would take the write
+// as rejected and retry it. The next write or a recompute catches up.
+async function refreshSafely(task: string, refresh: () => Promise<unknown>) {
+  try {
+    await refresh();
+  } catch (error) {
+    log(`${task} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Rebuilds everything stored from trades; call after trades, instruments, FX rates or account settings change
+async function refreshDerivedData() {
+  await refreshSafely("Refreshing derived data", async () => {
+    await storage.recomputeRiskMetrics();
+    await storage.evaluateChallenges(today());
+    await storage.evaluateHabitRules();
+  });
+}
+
+// Deadlines pass with the calendar rather than with a write, so challenges are
+// also evaluated at startup and once each time the date rolls over
+function scheduleChallengeDeadlineChecks() {
+  let checkedDay = today();
+  refreshSafely("Checking challenge deadlines", () => storage.evaluateChallenges(checkedDay));
+  setInterval(() => {
+    if (today() === checkedDay) return;
+    checkedDay = today();
+    refreshSafely("Checking challenge deadlines", () => storage.evaluateChallenges(checkedDay));
+  }, 60 * 60 * 1000).unref();
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  scheduleChallengeDeadlineChecks();
+
   // Habits
   app.get("/api/habits", async (req, res) => {
     try {
@@ -26,6 +135,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedHabit = insertHabitSchema.parse(req.body);
       const habit = await storage.createHabit(validatedHabit);
+      await refreshSafely("Evaluating habit rules", () => storage.evaluateHabitRules());
       res.status(201).json(habit);
     } catch (error) {
       res.status(400).json({ message: "Invalid habit data" });
@@ -40,6 +150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!habit) {
         return res.status(404).json({ message: "Habit not found" });
       }
+      await refreshSafely("Evaluating habit rules", () => storage.evaluateHabitRules());
       res.json(habit);
     } catch (error) {
       res.status(400).json({ message: "Invalid habit data" });
@@ -70,6 +181,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Drops a manual override so the habit's rule decides the day again
+  app.delete("/api/habit-completions/:habitId/:date", async (req, res) => {
+    try {
+      const habitId = parseInt(req.params.habitId);
+      const success = await storage.deleteHabitCompletion(habitId, req.params.date);
+      if (!success) {
+        return res.status(404).json({ message: "Completion not found" });
+      }
+      await refreshSafely("Evaluating habit rules", () => storage.evaluateHabitRules());
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete completion" });
+    }
+  });
+
   // Emotional Check-ins
   app.get("/api/emotional-checkin/:date", async (req, res) => {
     try {
@@ -106,6 +232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedEntry = insertJournalEntrySchema.parse(req.body);
       const entry = await storage.createOrUpdateJournalEntry(validatedEntry);
+      await refreshSafely("Evaluating habit rules", () => storage.evaluateHabitRules());
       res.json(entry);
     } catch (error) {
       res.status(400).json({ message: "Invalid journal entry data" });
@@ -147,27 +274,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Instruments
+  app.get("/api/instruments", async (req, res) => {
+    try {
+      const instruments = await storage.getInstruments();
+      res.json(instruments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch instruments" });
+    }
+  });
+
+  app.get("/api/instruments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const instrument = await storage.getInstrument(id);
+      if (!instrument) {
+        return res.status(404).json({ message: "Instrument not found" });
+      }
+      res.json(instrument);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch instrument" });
+    }
+  });
+
+  app.post("/api/instruments", async (req, res) => {
+    try {
+      const validatedInstrument = insertInstrumentSchema.parse(req.body);
+      const instrument = await storage.createInstrument(validatedInstrument);
+      // Relinked trades may now have a different P&L
+      await refreshDerivedData();
+      res.status(201).json(instrument);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid instrument data" });
+    }
+  });
+
+  app.put("/api/instruments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedInstrument = insertInstrumentSchema.partial().parse(req.body);
+      const instrument = await storage.updateInstrument(id, validatedInstrument);
+      if (!instrument) {
+        return res.status(404).json({ message: "Instrument not found" });
+      }
+      await refreshDerivedData();
+      res.json(instrument);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid instrument data" });
+    }
+  });
+
+  app.delete("/api/instruments/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteInstrument(id);
+      if (!success) {
+        return res.status(404).json({ message: "Instrument not found" });
+      }
+      await refreshDerivedData();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete instrument" });
+    }
+  });
+
   // Trade Reviews
   app.get("/api/trades", async (req, res) => {
     try {
-      const { startDate, endDate } = req.query;
-      const trades = await storage.getTradeReviews(startDate as string, endDate as string);
+      const { startDate, endDate, symbol, setup, tag } = req.query;
+      const trades = await storage.getTradeReviews(startDate as string, endDate as string, {
+        symbol: symbol as string,
+        setup: setup as string,
+        tag: tag as string,
+      });
       res.json(trades);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch trades" });
     }
   });
 
+  app.get("/api/trades/export", async (req, res) => {
+    try {
+      const { startDate, endDate, symbol, setup, tag } = req.query;
+      const format = (req.query.format as string) || "csv";
+      if (!exportFormats.includes(format as typeof exportFormats[number])) {
+        return res.status(400).json({ message: "Format must be csv, json or xlsx" });
+      }
+
+      const trades = await storage.getTradeReviews(startDate as string, endDate as string, {
+        symbol: symbol as string,
+        setup: setup as string,
+        tag: tag as string,
+      });
+      const { body, contentType } = await exportTrades(trades, format as typeof exportFormats[number]);
+
+      res.attachment(`trades-${new Date().toISOString().split('T')[0]}.${format}`);
+      res.type(contentType);
+      res.send(body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export trades" });
+    }
+  });
+
   app.post("/api/trades", async (req, res) => {
     try {
-      const validatedTrade = insertTradeReviewSchema.parse(req.body);
-      const trade = await storage.createTradeReview(validatedTrade);
+      const { executions, overrideReason, ...validatedTrade } = newTradeSchema.parse(req.body);
+
+      const limits = await storage.getDailyLimitStatus(validatedTrade.date);
+      const breachSummary = limits.breaches.map(breach => breach.message).join("; ");
+      if (limits.locked && limits.mode === "block" && !overrideReason) {
+        return res.status(409).json({ message: `Trading is locked for ${limits.date}: ${breachSummary}`, dailyLimits: limits });
+      }
+
+      let trade = await storage.createTradeReview(validatedTrade);
+      if (executions && executions.length > 0) {
+        trade = (await storage.replaceTradeExecutions(trade.id, executions)) || trade;
+      }
+      await refreshDerivedData();
+
+      if (!limits.locked) {
+        return res.status(201).json(trade);
+      }
+      if (!overrideReason) {
+        return res.status(201).json({ ...trade, warning: `Daily limit reached: ${breachSummary}` });
+      }
+
+      // Overrides are kept in that day's journal so they come up in review
+      await refreshSafely("Recording the daily limit override", async () => {
+        const journal = await storage.getJournalEntry(limits.date);
+        const note = `Daily limit override for ${trade.symbol} (${breachSummary}): ${overrideReason}`;
+        await storage.createOrUpdateJournalEntry({
+          date: limits.date,
+          content: journal?.content ? `${journal.content}\n\n${note}` : note,
+        });
+        await storage.evaluateHabitRules();
+      });
       res.status(201).json(trade);
     } catch (error) {
       res.status(400).json({ message: "Invalid trade data" });
     }
   });
 
+  app.post("/api/trades/import/mt5", async (req, res) => {
+    try {
+      const { content } = req.body;
+      if (typeof content !== "string" || !content.trim()) {
+        return res.status(400).json({ message: "Report content is required" });
+      }
+
+      let trades: ReturnType<typeof parseMt5Report>;
+      try {
+        trades = parseMt5Report(content);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? error.message : "Invalid MT5 report" });
+      }
+      if (trades.length === 0) {
+        return res.status(400).json({ message: "No deals found in MT5 report" });
+      }
+
+      // CSV exports carry no account header; MT5 amounts are then assumed to be in base currency
+      const { baseCurrency } = await storage.getAccountSettings();
+
+      let created = 0;
+      let updated = 0;
+      for (const trade of trades) {
+        const result = await storage.upsertTradeReviewByExternalId({
+          ...trade,
+          currency: trade.currency || baseCurrency,
+          externalId: trade.externalId!,
+        });
+        if (result.created) {
+          created++;
+        } else {
+          updated++;
+        }
+      }
+      await refreshDerivedData();
+
+      res.json({ created, updated, total: trades.length });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import MT5 report" });
+    }
+  });
+
+  app.post("/api/trades/import/csv/preview", async (req, res) => {
+    try {
+      const { content, mapping } = csvImportSchema.parse(req.body);
+      res.json(previewCsvImport(content, mapping));
+    } catch (error) {
+      res.status(400).json({ message: "Invalid CSV import data" });
+    }
+  });
+
+  app.post("/api/trades/import/csv", async (req, res) => {
+    try {
+      const { content, mapping } = csvImportSchema.parse(req.body);
+      const trades = getValidTrades(previewCsvImport(content, mapping));
+
+      let created = 0;
+      let updated = 0;
+      for (const trade of trades) {
+        if (trade.externalId) {
+          const result = await storage.upsertTradeReviewByExternalId({ ...trade, externalId: trade.externalId });
+          if (result.created) {
+            created++;
+          } else {
+            updated++;
+          }
+        } else {
+          await storage.createTradeReview(trade);
+          created++;
+        }
+      }
+      await refreshDerivedData();
+
+      res.json({ created, updated, total: trades.length });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid CSV import data" });
+    }
+  });
+
   app.put("/api/trades/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -176,12 +502,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!trade) {
         return res.status(404).json({ message: "Trade not found" });
       }
+      await refreshDerivedData();
       res.json(trade);
     } catch (error) {
       res.status(400).json({ message: "Invalid trade data" });
     }
   });
 
+  app.get("/api/trades/:id/executions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const executions = await storage.getTradeExecutions(id);
+      res.json(executions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch executions" });
+    }
+  });
+
+  app.put("/api/trades/:id/executions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedExecutions = z.array(insertTradeExecutionSchema).parse(req.body);
+      const trade = await storage.replaceTradeExecutions(id, validatedExecutions);
+      if (!trade) {
+        return res.status(404).json({ message: "Trade not found" });
+      }
+      await refreshDerivedData();
+      res.json(trade);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid execution data" });
+    }
+  });
+
   app.delete("/api/trades/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
@@ -189,6 +541,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!success) {
         return res.status(404).json({ message: "Trade not found" });
       }
+      await refreshDerivedData();
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete trade" });
@@ -230,6 +583,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Risk Metrics
+  app.get("/api/risk-metrics", async (req, res) => {
+    try {
+      const query = optionalRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const history = await storage.getRiskMetricsHistory(query.data.startDate, query.data.endDate);
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch risk metrics" });
+    }
+  });
+
   app.get("/api/risk-metrics/:date", async (req, res) => {
     try {
       const { date } = req.params;
@@ -250,20 +616,419 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/risk-metrics/recompute", async (req, res) => {
+    try {
+      const days = await storage.recomputeRiskMetrics();
+      res.json({ days });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to recompute risk metrics" });
+    }
+  });
+
+  app.post("/api/position-size", async (req, res) => {
+    try {
+      const request = positionSizeRequestSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ message: request.error.issues[0].message });
+      }
+
+      const date = request.data.date || today();
+      const [instruments, settings, rates, riskMetrics] = await Promise.all([
+        storage.getInstruments(),
+        storage.getAccountSettings(),
+        storage.getFxRates(),
+        storage.getLatestRiskMetrics(date),
+      ]);
+
+      const result = sizePosition({ ...request.data, date }, { instruments, settings, rates, riskMetrics });
+      if ("message" in result) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate position size" });
+    }
+  });
+
+  // Import Mappings
+  app.get("/api/import-mappings", async (req, res) => {
+    try {
+      const mappings = await storage.getImportMappings();
+      res.json(mappings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import mappings" });
+    }
+  });
+
+  app.post("/api/import-mappings", async (req, res) => {
+    try {
+      const validatedMapping = insertImportMappingSchema.parse(req.body);
+      const mapping = await storage.createOrUpdateImportMapping(validatedMapping);
+      res.json(mapping);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid import mapping data" });
+    }
+  });
+
+  app.delete("/api/import-mappings/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteImportMapping(id);
+      if (!success) {
+        return res.status(404).json({ message: "Import mapping not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete import mapping" });
+    }
+  });
+
+  // Account Settings
+  app.get("/api/daily-limits", async (req, res) => {
+    try {
+      const { date } = req.query;
+      if (date !== undefined && (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+        return res.status(400).json({ message: "Date must be YYYY-MM-DD" });
+      }
+      // The client sends its local date; the server's UTC day is only a fallback
+      const status = await storage.getDailyLimitStatus(date || today());
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch daily limits" });
+    }
+  });
+
+  app.get("/api/account-settings", async (req, res) => {
+    try {
+      const settings = await storage.getAccountSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch account settings" });
+    }
+  });
+
+  app.put("/api/account-settings", async (req, res) => {
+    try {
+      const validatedSettings = insertAccountSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateAccountSettings(validatedSettings);
+      // Derived balances depend on the starting balance and base currency
+      await refreshDerivedData();
+      res.json(settings);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid account settings" });
+    }
+  });
+
+  // FX Rates
+  app.get("/api/fx-rates", async (req, res) => {
+    try {
+      const rates = await storage.getFxRates();
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch FX rates" });
+    }
+  });
+
+  app.post("/api/fx-rates/import", async (req, res) => {
+    try {
+      const { content } = req.body;
+      if (typeof content !== "string" || !content.trim()) {
+        return res.status(400).json({ message: "CSV content is required" });
+      }
+
+      const { baseCurrency } = await storage.getAccountSettings();
+      const { rates, errors } = parseFxRatesCsv(content, baseCurrency);
+      if (rates.length === 0) {
+        return res.status(400).json({ message: errors[0] || "No FX rates found in CSV" });
+      }
+
+      const result: FxRateImportResult = { imported: await storage.upsertFxRates(rates), errors };
+      await refreshDerivedData();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to import FX rates" });
+    }
+  });
+
+  app.delete("/api/fx-rates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteFxRate(id);
+      if (!success) {
+        return res.status(404).json({ message: "FX rate not found" });
+      }
+      await refreshDerivedData();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete FX rate" });
+    }
+  });
+
+  // Prop Firm Challenges
+  app.get("/api/challenges", async (req, res) => {
+    try {
+      const challenges = await storage.getChallenges();
+      const withStatus = await Promise.all(challenges.map(async challenge => ({
+        ...challenge,
+        evaluation: await storage.getChallengeStatus(challenge, today()),
+      })));
+      res.json(withStatus);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch challenges" });
+    }
+  });
+
+  app.post("/api/challenges", async (req, res) => {
+    try {
+      const validatedChallenge = insertChallengeSchema.safeParse(req.body);
+      if (!validatedChallenge.success) {
+        return res.status(400).json({ message: validatedChallenge.error.issues[0].message });
+      }
+      const challenge = await storage.createChallenge(validatedChallenge.data);
+      await refreshSafely("Evaluating the challenge", () => storage.refreshChallengeStatus(challenge, today()));
+      res.status(201).json(challenge);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create challenge" });
+    }
+  });
+
+  app.put("/api/challenges/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedChallenge = insertChallengeSchema.partial().safeParse(req.body);
+      if (!validatedChallenge.success) {
+        return res.status(400).json({ message: validatedChallenge.error.issues[0].message });
+      }
+      const challenge = await storage.updateChallenge(id, validatedChallenge.data);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      await refreshSafely("Evaluating the challenge", () => storage.refreshChallengeStatus(challenge, today()));
+      res.json(challenge);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update challenge" });
+    }
+  });
+
+  app.delete("/api/challenges/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteChallenge(id);
+      if (!success) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete challenge" });
+    }
+  });
+
+  app.get("/api/challenges/:id/evaluations", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const challenge = await storage.getChallenge(id);
+      if (!challenge) {
+        return res.status(404).json({ message: "Challenge not found" });
+      }
+      const evaluations = await storage.getChallengeEvaluations(id);
+      res.json(evaluations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch challenge evaluations" });
+    }
+  });
+
   // Trading Analytics
   app.get("/api/trading-stats", async (req, res) => {
     try {
-      const { startDate, endDate } = req.query;
-      if (!startDate || !endDate) {
-        return res.status(400).json({ message: "Start date and end date are required" });
+      const query = analyticsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
       }
-      const stats = await storage.getTradingStats(startDate as string, endDate as string);
+      const { startDate, endDate, basis } = query.data;
+      const stats = await storage.getTradingStats(startDate, endDate, basis);
       res.json(stats);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch trading stats" });
     }
   });
 
+  app.get("/api/trading-stats/breakdown", async (req, res) => {
+    try {
+      const query = breakdownQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { by, startDate, endDate, basis } = query.data;
+      const breakdown = await storage.getPerformanceBreakdown(by, startDate, endDate, basis);
+      res.json(breakdown);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch performance breakdown" });
+    }
+  });
+
+  app.get("/api/equity-curve", async (req, res) => {
+    try {
+      const query = equityCurveQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis, startingBalance } = query.data;
+      const curve = await storage.getEquityCurve(startDate, endDate, basis, startingBalance);
+      res.json(curve);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch equity curve" });
+    }
+  });
+
+  app.get("/api/analytics/timing", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const timezone = typeof req.query.timezone === "string" ? req.query.timezone : "UTC";
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ message: "Unknown timezone" });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const analytics = await storage.getTimingAnalytics(startDate, endDate, basis, timezone);
+      res.json(analytics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch timing analytics" });
+    }
+  });
+
+  app.get("/api/analytics/emotions", async (req, res) => {
+    try {
+      const query = optionalRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const analytics = await storage.getEmotionAnalytics(startDate, endDate, basis);
+      res.json(analytics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch emotion analytics" });
+    }
+  });
+
+  app.get("/api/analytics/habits", async (req, res) => {
+    try {
+      const query = optionalRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const correlations = await storage.getHabitCorrelations(startDate, endDate, basis);
+      res.json(correlations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch habit correlations" });
+    }
+  });
+
+  app.get("/api/analytics/mistakes", async (req, res) => {
+    try {
+      const query = optionalRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const report = await storage.getMistakeReport(startDate, endDate, basis);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mistake report" });
+    }
+  });
+
+  app.get("/api/calendar", async (req, res) => {
+    try {
+      const query = analyticsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const start = Date.parse(`${startDate}T00:00:00Z`);
+      const end = Date.parse(`${endDate}T00:00:00Z`);
+      if (isNaN(start) || isNaN(end) || end < start) {
+        return res.status(400).json({ message: "Start and end date must be valid dates in order" });
+      }
+      if ((end - start) / 86400000 >= MAX_CALENDAR_DAYS) {
+        return res.status(400).json({ message: `Date range cannot exceed ${MAX_CALENDAR_DAYS} days` });
+      }
+      const summary = await storage.getCalendarSummary(startDate, endDate, basis);
+      res.json(summary);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calendar" });
+    }
+  });
+
+  app.get("/api/analytics/streaks", async (req, res) => {
+    try {
+      const query = optionalRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, basis } = query.data;
+      const streaks = await storage.getStreakStats(startDate, endDate, basis);
+      res.json(streaks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch streaks" });
+    }
+  });
+
+  app.get("/api/analytics/tilt-events", async (req, res) => {
+    try {
+      const query = tiltEventsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { startDate, endDate, kind, basis } = query.data;
+      const events = await storage.getTiltEvents(startDate, endDate, kind, basis);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tilt events" });
+    }
+  });
+
+  app.get("/api/analytics/rolling", async (req, res) => {
+    try {
+      const query = rollingQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: query.error.issues[0].message });
+      }
+      const { window, unit, startDate, endDate, basis } = query.data;
+      const metrics = await storage.getRollingMetrics(window, unit, startDate, endDate, basis);
+      res.json(metrics);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch rolling metrics" });
+    }
+  });
+
+  // POST because a run takes a handful of parameters and isn't cacheable when unseeded
+  app.post("/api/analytics/monte-carlo", async (req, res) => {
+    try {
+      const request = monteCarloRequestSchema.safeParse(req.body);
+      if (!request.success) {
+        return res.status(400).json({ message: request.error.issues[0].message });
+      }
+      const { startDate, endDate, symbol, setup, tag, ...options } = request.data;
+
+      const settings = await storage.getAccountSettings();
+      const startingBalance = options.startingBalance ?? toNumber(settings.startingBalance);
+      if (!startingBalance || startingBalance <= 0) {
+        return res.status(400).json({ message: "Set a starting balance to simulate against" });
+      }
+
+      const result = await storage.runMonteCarlo({ startDate, endDate }, { symbol, setup, tag }, { ...options, startingBalance });
+      if (!result) {
+        return res.status(400).json({ message: "No trades with P&L match the selection" });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run Monte Carlo simulation" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
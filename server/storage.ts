@@ -3,27 +3,102 @@ import {
   type InsertHabit,
   type HabitCompletion,
   type InsertHabitCompletion,
+  type HabitCompletionSource,
   type EmotionalCheckIn,
   type InsertEmotionalCheckIn,
   type JournalEntry,
   type InsertJournalEntry,
   type TradeReview,
   type InsertTradeReview,
+  type TradeExecution,
+  type InsertTradeExecution,
   type GoalTracking,
   type InsertGoalTracking,
   type RiskMetrics,
   type InsertRiskMetrics,
+  type ImportMapping,
+  type InsertImportMapping,
+  type Instrument,
+  type InsertInstrument,
+  type AccountSettings,
+  type InsertAccountSettings,
+  type FxRate,
+  type InsertFxRate,
+  type Challenge,
+  type InsertChallenge,
+  type ChallengeEvaluation,
+  type ChallengeStatus,
   type HabitWithStats,
+  type TradingStats,
+  type TimingAnalytics,
+  type BreakdownDimension,
+  type PerformanceBreakdown,
+  type EmotionAnalytics,
+  type HabitCorrelationAnalytics,
+  type MistakeReport,
+  type CalendarSummary,
+  type MonteCarloResult,
+  type StreakStats,
+  type TiltEvent,
+  type TiltEventKind,
+  type RollingMetrics,
+  type RollingWindowUnit,
+  type EquityCurve,
+  type PnlBasis,
+  type DailyLimitStatus,
   habits,
   habitCompletions,
   emotionalCheckIns,
   journalEntries,
   tradeReviews,
+  tradeExecutions,
   goalTracking,
-  riskMetrics
+  riskMetrics,
+  importMappings,
+  instruments,
+  accountSettings,
+  fxRates,
+  challenges,
+  challengeEvaluations
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, gte, lte, count, sql, desc } from "drizzle-orm";
+import { summarizeExecutions, toNumber } from "@shared/trade-math";
+import { resolvePnl, manualPnlForUpdate, resolveRisk, manualRiskForUpdate, affectsRisk } from "./pnl";
+import { resolveInstrument, matchInstrument } from "./instruments";
+import { normalizeSymbol } from "./contract-specs";
+import { calculateTradingStats, calculateTimingAnalytics, calculateEquityCurve, calculatePerformanceBreakdown, calculateEmotionAnalytics, calculateHabitCorrelations, calculateMistakeReport, calculateCalendarSummary, calculateStreaks, detectTiltEvents, calculateRollingMetrics } from "./analytics";
+import { convertPointValue, convertTradesToBase, type BaseCurrencyTrades } from "./fx";
+import { runMonteCarlo, type MonteCarloOptions } from "./monte-carlo";
+import { calculateDailyLimitStatus } from "./daily-limits";
+import { deriveRiskMetrics } from "./risk-metrics";
+import { challengeEvaluationKey, evaluateChallenge } from "./challenges";
+import { planHabitCompletionChanges } from "./habit-rules";
+import { eq, and, or, gte, lte, count, sql, desc, inArray, arrayContains, type SQL } from "drizzle-orm";
+
+export interface TradeReviewFilters {
+  symbol?: string;
+  setup?: string;
+  tag?: string;
+}
+
+const HABIT_COMPLETION_BATCH = 1000;
+
+// Contract specs seeded into a new store so common symbols price correctly out of the box
+const DEFAULT_INSTRUMENTS: InsertInstrument[] = [
+  { symbol: "EURUSD", aliases: ["EUR/USD"], assetClass: "forex", quoteCurrency: "USD", tickSize: "0.00001", tickValue: "1" },
+  { symbol: "GBPUSD", aliases: ["GBP/USD"], assetClass: "forex", quoteCurrency: "USD", tickSize: "0.00001", tickValue: "1" },
+  { symbol: "USDJPY", aliases: ["USD/JPY"], assetClass: "forex", quoteCurrency: "JPY", tickSize: "0.001", tickValue: "100" },
+  { symbol: "XAUUSD", aliases: ["GOLD", "XAU/USD"], assetClass: "commodity", quoteCurrency: "USD", tickSize: "0.01", tickValue: "1" },
+  { symbol: "ES", aliases: ["/ES"], assetClass: "futures", quoteCurrency: "USD", tickSize: "0.25", tickValue: "12.5" },
+  { symbol: "MES", aliases: ["/MES"], assetClass: "futures", quoteCurrency: "USD", tickSize: "0.25", tickValue: "1.25" },
+  { symbol: "NQ", aliases: ["/NQ"], assetClass: "futures", quoteCurrency: "USD", tickSize: "0.25", tickValue: "5" }
+];
+
+// Instruments and rates loaded once when many trades are priced together
+interface PricingContext {
+  instruments: Instrument[];
+  rates: FxRate[];
+}
 
 export interface IStorage {
   // Habits
@@ -36,23 +111,41 @@ export interface IStorage {
   // Habit Completions
   getHabitCompletions(habitId: number, startDate?: string, endDate?: string): Promise<HabitCompletion[]>;
   getHabitCompletion(habitId: number, date: string): Promise<HabitCompletion | undefined>;
-  createOrUpdateHabitCompletion(completion: InsertHabitCompletion): Promise<HabitCompletion>;
+  createOrUpdateHabitCompletion(completion: InsertHabitCompletion, source?: HabitCompletionSource): Promise<HabitCompletion>;
+  deleteHabitCompletion(habitId: number, date: string): Promise<boolean>;
+  // Applies every habit rule to trades and journal entries; returns the number of completions changed
+  evaluateHabitRules(): Promise<number>;
   
   // Emotional Check-ins
   getEmotionalCheckIn(date: string): Promise<EmotionalCheckIn | undefined>;
+  getEmotionalCheckIns(startDate?: string, endDate?: string): Promise<EmotionalCheckIn[]>;
   createOrUpdateEmotionalCheckIn(checkIn: InsertEmotionalCheckIn): Promise<EmotionalCheckIn>;
   
   // Journal Entries
   getJournalEntry(date: string): Promise<JournalEntry | undefined>;
+  getJournalEntries(): Promise<JournalEntry[]>;
   createOrUpdateJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
   
+  // Instruments
+  getInstruments(): Promise<Instrument[]>;
+  getInstrument(id: number): Promise<Instrument | undefined>;
+  createInstrument(instrument: InsertInstrument): Promise<Instrument>;
+  updateInstrument(id: number, instrument: Partial<InsertInstrument>): Promise<Instrument | undefined>;
+  deleteInstrument(id: number): Promise<boolean>;
+
   // Trade Reviews
-  getTradeReviews(startDate?: string, endDate?: string): Promise<TradeReview[]>;
+  getTradeReviews(startDate?: string, endDate?: string, filters?: TradeReviewFilters): Promise<TradeReview[]>;
   getTradeReview(id: number): Promise<TradeReview | undefined>;
+  getTradeReviewByExternalId(externalId: string): Promise<TradeReview | undefined>;
   createTradeReview(review: InsertTradeReview): Promise<TradeReview>;
   updateTradeReview(id: number, review: Partial<InsertTradeReview>): Promise<TradeReview | undefined>;
+  upsertTradeReviewByExternalId(review: InsertTradeReview & { externalId: string }): Promise<{ trade: TradeReview; created: boolean }>;
   deleteTradeReview(id: number): Promise<boolean>;
 
+  // Trade Executions
+  getTradeExecutions(tradeId: number): Promise<TradeExecution[]>;
+  replaceTradeExecutions(tradeId: number, executions: InsertTradeExecution[]): Promise<TradeReview | undefined>;
+
   // Goal Tracking
   getGoals(): Promise<GoalTracking[]>;
   getGoal(id: number): Promise<GoalTracking | undefined>;
@@ -62,7 +155,33 @@ export interface IStorage {
 
   // Risk Metrics
   getRiskMetrics(date: string): Promise<RiskMetrics | undefined>;
+  getLatestRiskMetrics(onOrBefore: string): Promise<RiskMetrics | undefined>;
+  getRiskMetricsHistory(startDate?: string, endDate?: string): Promise<RiskMetrics[]>;
   createOrUpdateRiskMetrics(metrics: InsertRiskMetrics): Promise<RiskMetrics>;
+  // Rebuilds the derived row of every trading day; returns the number of days
+  recomputeRiskMetrics(): Promise<number>;
+
+  // Import Mappings
+  getImportMappings(): Promise<ImportMapping[]>;
+  createOrUpdateImportMapping(mapping: InsertImportMapping): Promise<ImportMapping>;
+  deleteImportMapping(id: number): Promise<boolean>;
+
+  // Account Settings
+  getAccountSettings(): Promise<AccountSettings>;
+  updateAccountSettings(settings: Partial<InsertAccountSettings>): Promise<AccountSettings>;
+
+  // FX Rates
+  getFxRates(): Promise<FxRate[]>;
+  upsertFxRates(rates: InsertFxRate[]): Promise<number>;
+  deleteFxRate(id: number): Promise<boolean>;
+
+  // Prop Firm Challenges
+  getChallenges(): Promise<Challenge[]>;
+  getChallenge(id: number): Promise<Challenge | undefined>;
+  createChallenge(challenge: InsertChallenge): Promise<Challenge>;
+  updateChallenge(id: number, challenge: Partial<InsertChallenge>): Promise<Challenge | undefined>;
+  deleteChallenge(id: number): Promise<boolean>;
+  getChallengeEvaluations(challengeId: number): Promise<ChallengeEvaluation[]>; // newest first
 
   // Analytics
   getHabitsWithStats(date: string): Promise<HabitWithStats[]>;
@@ -73,15 +192,27 @@ export interface IStorage {
     completionRate: number;
     perfectDays: number;
   }>;
-  getTradingStats(startDate: string, endDate: string): Promise<{
-    totalTrades: number;
-    winRate: number;
-    totalPnL: number;
-    avgWin: number;
-    avgLoss: number;
-    profitFactor: number;
-    emotionalStates: Record<string, number>;
-  }>;
+  getTradingStats(startDate: string, endDate: string, basis?: PnlBasis): Promise<TradingStats>;
+  getPerformanceBreakdown(by: BreakdownDimension, startDate?: string, endDate?: string, basis?: PnlBasis): Promise<PerformanceBreakdown>;
+  getTimingAnalytics(startDate: string, endDate: string, basis?: PnlBasis, timezone?: string): Promise<TimingAnalytics>;
+  getEmotionAnalytics(startDate?: string, endDate?: string, basis?: PnlBasis): Promise<EmotionAnalytics>;
+  getHabitCorrelations(startDate?: string, endDate?: string, basis?: PnlBasis): Promise<HabitCorrelationAnalytics>;
+  getMistakeReport(startDate?: string, endDate?: string, basis?: PnlBasis): Promise<MistakeReport>;
+  getCalendarSummary(startDate: string, endDate: string, basis?: PnlBasis): Promise<CalendarSummary>;
+  getStreakStats(startDate?: string, endDate?: string, basis?: PnlBasis): Promise<StreakStats>;
+  getTiltEvents(startDate?: string, endDate?: string, kind?: TiltEventKind, basis?: PnlBasis): Promise<TiltEvent[]>;
+  getRollingMetrics(window: number, unit: RollingWindowUnit, startDate?: string, endDate?: string, basis?: PnlBasis): Promise<RollingMetrics>;
+  getEquityCurve(startDate?: string, endDate?: string, basis?: PnlBasis, startingBalance?: number): Promise<EquityCurve>;
+  runMonteCarlo(
+    range: { startDate?: string; endDate?: string },
+    filters: TradeReviewFilters,
+    options: MonteCarloOptions,
+  ): Promise<MonteCarloResult | null>;
+  getDailyLimitStatus(date: string): Promise<DailyLimitStatus>;
+  getChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus>;
+  // Evaluates a challenge, logging the result only when it differs from the last one logged
+  refreshChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus>;
+  evaluateChallenges(today: string): Promise<ChallengeStatus[]>;
 }
 
 export class MemStorage implements IStorage {
@@ -90,15 +221,28 @@ export class MemStorage implements IStorage {
   private emotionalCheckIns: Map<string, EmotionalCheckIn>;
   private journalEntries: Map<string, JournalEntry>;
   private tradeReviews: Map<number, TradeReview>;
+  private tradeExecutions: Map<number, TradeExecution>;
   private goals: Map<number, GoalTracking>;
   private riskMetrics: Map<string, RiskMetrics>;
+  private importMappings: Map<string, ImportMapping>;
+  private instruments: Map<number, Instrument>;
+  private accountSettings: AccountSettings;
+  private fxRates: Map<string, FxRate>;
+  private challenges: Map<number, Challenge>;
+  private challengeEvaluations: Map<number, ChallengeEvaluation>;
   private currentHabitId: number;
   private currentCompletionId: number;
   private currentCheckInId: number;
   private currentJournalId: number;
   private currentTradeId: number;
+  private currentExecutionId: number;
   private currentGoalId: number;
   private currentRiskId: number;
+  private currentMappingId: number;
+  private currentInstrumentId: number;
+  private currentFxRateId: number;
+  private currentChallengeId: number;
+  private currentEvaluationId: number;
 
   constructor() {
     this.habits = new Map();
@@ -106,19 +250,41 @@ export class MemStorage implements IStorage {
     this.emotionalCheckIns = new Map();
     this.journalEntries = new Map();
     this.tradeReviews = new Map();
+    this.tradeExecutions = new Map();
     this.goals = new Map();
     this.riskMetrics = new Map();
+    this.importMappings = new Map();
+    this.instruments = new Map();
+    this.accountSettings = {
+      id: 1,
+      baseCurrency: "USD",
+      startingBalance: null,
+      maxDailyLoss: null,
+      maxTradesPerDay: null,
+      maxConsecutiveLosses: null,
+      dailyLimitMode: "block",
+    };
+    this.fxRates = new Map();
+    this.challenges = new Map();
+    this.challengeEvaluations = new Map();
     this.currentHabitId = 1;
     this.currentCompletionId = 1;
     this.currentCheckInId = 1;
     this.currentJournalId = 1;
     this.currentTradeId = 1;
+    this.currentExecutionId = 1;
     this.currentGoalId = 1;
     this.currentRiskId = 1;
+    this.currentMappingId = 1;
+    this.currentInstrumentId = 1;
+    this.currentFxRateId = 1;
+    this.currentChallengeId = 1;
+    this.currentEvaluationId = 1;
 
     // Initialize with default data
     this.initializeDefaultHabits();
     this.initializeDefaultGoals();
+    this.initializeDefaultInstruments();
   }
 
   private initializeDefaultHabits() {
@@ -126,12 +292,16 @@ export class MemStorage implements IStorage {
       {
         name: "Avoid Overtrading",
         description: "Maximum 3 trades per day, focus on quality over quantity",
-        category: "Risk Management"
+        category: "Risk Management",
+        ruleType: "maxTradesPerDay",
+        ruleValue: "3"
       },
       {
         name: "Honor Stop Losses",
         description: "Exit positions when stop loss is hit, no exceptions",
-        category: "Risk Management"
+        category: "Risk Management",
+        ruleType: "noMistake",
+        ruleValue: "Ignored Stop Loss"
       },
       {
         name: "Wait for Setup",
@@ -192,6 +362,22 @@ export class MemStorage implements IStorage {
     }
   }
 
+  private initializeDefaultInstruments() {
+    for (const instrument of DEFAULT_INSTRUMENTS) {
+      const saved: Instrument = {
+        ...instrument,
+        aliases: instrument.aliases || null,
+        quoteCurrency: instrument.quoteCurrency || "USD",
+        tickSize: instrument.tickSize || null,
+        tickValue: instrument.tickValue || null,
+        contractSize: instrument.contractSize || null,
+        id: this.currentInstrumentId++,
+        isActive: true
+      };
+      this.instruments.set(saved.id, saved);
+    }
+  }
+
   // Habits
   async getHabits(): Promise<Habit[]> {
     return Array.from(this.habits.values()).filter(h => h.isActive);
@@ -206,6 +392,8 @@ export class MemStorage implements IStorage {
       ...insertHabit,
       description: insertHabit.description || null,
       category: insertHabit.category || "custom",
+      ruleType: insertHabit.ruleType || null,
+      ruleValue: insertHabit.ruleValue || null,
       id: this.currentHabitId++,
       isActive: true
     };
@@ -246,18 +434,19 @@ export class MemStorage implements IStorage {
     return this.habitCompletions.get(key);
   }
 
-  async createOrUpdateHabitCompletion(completion: InsertHabitCompletion): Promise<HabitCompletion> {
+  async createOrUpdateHabitCompletion(completion: InsertHabitCompletion, source: HabitCompletionSource = "manual"): Promise<HabitCompletion> {
     const key = `${completion.habitId}-${completion.date}`;
     const existing = this.habitCompletions.get(key);
     
     if (existing) {
-      const updated = { ...existing, completed: completion.completed ?? false };
+      const updated = { ...existing, completed: completion.completed ?? false, source };
       this.habitCompletions.set(key, updated);
       return updated;
     } else {
       const newCompletion: HabitCompletion = {
         ...completion,
         completed: completion.completed ?? false,
+        source,
         id: this.currentCompletionId++
       };
       this.habitCompletions.set(key, newCompletion);
@@ -265,11 +454,51 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async deleteHabitCompletion(habitId: number, date: string): Promise<boolean> {
+    return this.habitCompletions.delete(`${habitId}-${date}`);
+  }
+
+  async evaluateHabitRules(): Promise<number> {
+    const habits = await this.getHabits();
+    const { trades, journalDates } = await this.getHabitRuleInputs(habits);
+    const habitIds = new Set(habits.map(habit => habit.id));
+    const completions = Array.from(this.habitCompletions.values()).filter(completion => habitIds.has(completion.habitId));
+
+    const { insert, update, remove } = planHabitCompletionChanges(habits, completions, trades, journalDates);
+    remove.forEach(completion => this.habitCompletions.delete(`${completion.habitId}-${completion.date}`));
+    update.forEach(completion => this.habitCompletions.set(`${completion.habitId}-${completion.date}`, completion));
+    insert.forEach(completion => this.habitCompletions.set(`${completion.habitId}-${completion.date}`, {
+      ...completion,
+      completed: completion.completed ?? false,
+      source: "auto",
+      id: this.currentCompletionId++
+    }));
+    return insert.length + update.length + remove.length;
+  }
+
+  // Trades and journal days are only loaded when some habit has a rule to check them against
+  private async getHabitRuleInputs(habits: Habit[]) {
+    if (!habits.some(habit => habit.ruleType)) return { trades: [], journalDates: [] };
+
+    const journalDates = (await this.getJournalEntries())
+      .filter(entry => entry.content.trim())
+      .map(entry => entry.date);
+    return { trades: await this.getTradeReviews(), journalDates };
+  }
+
   // Emotional Check-ins
   async getEmotionalCheckIn(date: string): Promise<EmotionalCheckIn | undefined> {
     return this.emotionalCheckIns.get(date);
   }
 
+  async getEmotionalCheckIns(startDate?: string, endDate?: string): Promise<EmotionalCheckIn[]> {
+    return Array.from(this.emotionalCheckIns.values()).filter(checkIn => {
+      if (startDate && checkIn.date < startDate) return false;
+      if (endDate && checkIn.date > endDate) return false;
+      return true;
+    });
+  }
+
   async createOrUpdateEmotionalCheckIn(checkIn: InsertEmotionalCheckIn): Promise<EmotionalCheckIn> {
     const existing = this.emotionalCheckIns.get(checkIn.date);
     
@@ -292,6 +521,10 @@ export class MemStorage implements IStorage {
     return this.journalEntries.get(date);
   }
 
+  async getJournalEntries(): Promise<JournalEntry[]> {
+    return Array.from(this.journalEntries.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
   async createOrUpdateJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry> {
     const existing = this.journalEntries.get(entry.date);
     
@@ -324,7 +557,8 @@ export class MemStorage implements IStorage {
         c.completed
       );
       
-      const completedToday = completions.some(c => c.date === date && c.completed);
+      const todayCompletion = completions.find(c => c.date === date);
+      const completedToday = todayCompletion?.completed || false;
       
       // Calculate streak
       let currentStreak = 0;
@@ -352,6 +586,7 @@ export class MemStorage implements IStorage {
         currentStreak,
         completionRate: Math.round(completionRate),
         completedToday,
+        todaySource: (todayCompletion?.source as HabitCompletionSource | undefined) ?? null,
         monthlyCompletions: monthlyCompletions.length,
         totalDaysThisMonth
       };
@@ -445,10 +680,13 @@ export class MemStorage implements IStorage {
   }
 
   // Trade Reviews
-  async getTradeReviews(startDate?: string, endDate?: string): Promise<TradeReview[]> {
+  async getTradeReviews(startDate?: string, endDate?: string, filters: TradeReviewFilters = {}): Promise<TradeReview[]> {
     return Array.from(this.tradeReviews.values()).filter(trade => {
       if (startDate && trade.date < startDate) return false;
       if (endDate && trade.date > endDate) return false;
+      if (filters.symbol && trade.symbol !== filters.symbol) return false;
+      if (filters.setup && trade.setup !== filters.setup) return false;
+      if (filters.tag && !trade.tags?.includes(filters.tag)) return false;
       return true;
     });
   }
@@ -457,11 +695,98 @@ export class MemStorage implements IStorage {
     return this.tradeReviews.get(id);
   }
 
+  async getTradeReviewByExternalId(externalId: string): Promise<TradeReview | undefined> {
+    return Array.from(this.tradeReviews.values()).find(trade => trade.externalId === externalId);
+  }
+
+  // Instruments
+  async getInstruments(): Promise<Instrument[]> {
+    return Array.from(this.instruments.values())
+      .filter(i => i.isActive)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  async getInstrument(id: number): Promise<Instrument | undefined> {
+    return this.instruments.get(id);
+  }
+
+  async createInstrument(insertInstrument: InsertInstrument): Promise<Instrument> {
+    const instrument: Instrument = {
+      ...insertInstrument,
+      aliases: insertInstrument.aliases || null,
+      quoteCurrency: insertInstrument.quoteCurrency || "USD",
+      tickSize: insertInstrument.tickSize || null,
+      tickValue: insertInstrument.tickValue || null,
+      contractSize: insertInstrument.contractSize || null,
+      id: this.currentInstrumentId++,
+      isActive: true
+    };
+    this.instruments.set(instrument.id, instrument);
+    await this.relinkTrades(instrument);
+    return instrument;
+  }
+
+  async updateInstrument(id: number, updates: Partial<InsertInstrument>): Promise<Instrument | undefined> {
+    const instrument = this.instruments.get(id);
+    if (!instrument) return undefined;
+    
+    const updated = { ...instrument, ...updates };
+    this.instruments.set(id, updated);
+    await this.relinkTrades(updated);
+    return updated;
+  }
+
+  async deleteInstrument(id: number): Promise<boolean> {
+    const instrument = this.instruments.get(id);
+    if (!instrument) return false;
+    
+    this.instruments.set(id, { ...instrument, isActive: false });
+    return true;
+  }
+
+  // Re-resolving the symbol canonicalizes matching trades and recomputes their P&L
+  private async relinkTrades(instrument: Instrument) {
+    for (const trade of Array.from(this.tradeReviews.values())) {
+      if (trade.instrumentId === instrument.id || matchInstrument([instrument], trade.symbol)) {
+        await this.updateTradeReview(trade.id, { symbol: trade.symbol });
+      }
+    }
+  }
+
+  private async resolveSymbol(symbol: string) {
+    return resolveInstrument(await this.getInstruments(), symbol);
+  }
+
+  // Resolves the instrument with its point value in the trade's currency, which
+  // defaults to the quote currency; null when no FX rate bridges the two
+  private async resolvePricing(trade: { symbol: string; currency?: string | null; date: string }) {
+    const resolved = await this.resolveSymbol(trade.symbol);
+    const currency = trade.currency || resolved.quoteCurrency;
+    const pointValue = currency && currency !== resolved.quoteCurrency
+      ? convertPointValue(resolved.pointValue, resolved.quoteCurrency, currency, trade.date, await this.getFxRates())
+      : resolved.pointValue;
+    return { ...resolved, currency, pointValue };
+  }
+
   async createTradeReview(review: InsertTradeReview): Promise<TradeReview> {
+    const { instrumentId, symbol, pointValue, currency } = await this.resolvePricing(review);
+    const pnlFields = resolvePnl(review, review.pnl, pointValue);
     const tradeReview: TradeReview = {
       ...review,
+      symbol,
+      instrumentId,
+      entryTime: review.entryTime || null,
+      exitTime: review.exitTime || null,
       exitPrice: review.exitPrice || null,
-      pnl: review.pnl || null,
+      ...pnlFields,
+      plannedStop: review.plannedStop || null,
+      plannedTarget: review.plannedTarget || null,
+      ...resolveRisk({ ...review, ...pnlFields }, review.initialRisk, pointValue),
+      commission: review.commission || null,
+      swap: review.swap || null,
+      fees: review.fees || null,
+      currency,
+      externalId: review.externalId || null,
       tags: review.tags || null,
       emotionalState: review.emotionalState || null,
       setup: review.setup || null,
@@ -479,14 +804,71 @@ export class MemStorage implements IStorage {
     if (!existing) return undefined;
     
     const updated = { ...existing, ...review };
+    if (affectsRisk(review)) {
+      const { instrumentId, symbol, pointValue, currency } = await this.resolvePricing(updated);
+      Object.assign(updated, { instrumentId, symbol, currency }, resolvePnl(updated, manualPnlForUpdate(existing, review), pointValue));
+      Object.assign(updated, resolveRisk(updated, manualRiskForUpdate(existing, review, pointValue), pointValue));
+    }
     this.tradeReviews.set(id, updated);
     return updated;
   }
 
+  async upsertTradeReviewByExternalId(review: InsertTradeReview & { externalId: string }): Promise<{ trade: TradeReview; created: boolean }> {
+    const existing = await this.getTradeReviewByExternalId(review.externalId);
+    
+    if (existing) {
+      const updated = await this.updateTradeReview(existing.id, review);
+      return { trade: updated!, created: false };
+    } else {
+      const created = await this.createTradeReview(review);
+      return { trade: created, created: true };
+    }
+  }
+
   async deleteTradeReview(id: number): Promise<boolean> {
+    Array.from(this.tradeExecutions.values())
+      .filter(e => e.tradeId === id)
+      .forEach(e => this.tradeExecutions.delete(e.id));
     return this.tradeReviews.delete(id);
   }
 
+  // Trade Executions
+  async getTradeExecutions(tradeId: number): Promise<TradeExecution[]> {
+    return Array.from(this.tradeExecutions.values())
+      .filter(e => e.tradeId === tradeId)
+      .sort((a, b) => a.executedAt.getTime() - b.executedAt.getTime());
+  }
+
+  async replaceTradeExecutions(tradeId: number, executions: InsertTradeExecution[]): Promise<TradeReview | undefined> {
+    const trade = this.tradeReviews.get(tradeId);
+    if (!trade) return undefined;
+
+    (await this.getTradeExecutions(tradeId)).forEach(e => this.tradeExecutions.delete(e.id));
+    for (const execution of executions) {
+      const saved: TradeExecution = {
+        ...execution,
+        fees: execution.fees || null,
+        tradeId,
+        id: this.currentExecutionId++
+      };
+      this.tradeExecutions.set(saved.id, saved);
+    }
+
+    const { pointValue } = await this.resolvePricing(trade);
+    const summary = summarizeExecutions(executions, trade.side, pointValue ?? 1);
+    if (!summary) return trade;
+
+    // Realized P&L from fills is authoritative, so it is stored as computed rather than manual.
+    // Without an FX rate it can't be stated in the trade's currency and the existing P&L stays.
+    // The trade keeps its own date: the summary's is the UTC day, the trader's may differ.
+    const { pnl, date, ...fills } = summary;
+    const pnlFields = pointValue !== null ? { pnl, pnlComputed: pnl, pnlOverride: false } : {};
+    const updated: TradeReview = { ...trade, ...fills, ...pnlFields };
+    Object.assign(updated, resolveRisk(updated, manualRiskForUpdate(trade, {}, pointValue), pointValue));
+    this.tradeReviews.set(tradeId, updated);
+    return updated;
+  }
+
   // Goal Tracking
   async getGoals(): Promise<GoalTracking[]> {
     return Array.from(this.goals.values()).filter(g => g.isActive);
@@ -532,11 +914,23 @@ export class MemStorage implements IStorage {
     return this.riskMetrics.get(date);
   }
 
+  async getLatestRiskMetrics(onOrBefore: string): Promise<RiskMetrics | undefined> {
+    return Array.from(this.riskMetrics.values())
+      .filter(metrics => metrics.date <= onOrBefore)
+      .sort((a, b) => b.date.localeCompare(a.date))[0];
+  }
+
+  async getRiskMetricsHistory(startDate?: string, endDate?: string): Promise<RiskMetrics[]> {
+    return Array.from(this.riskMetrics.values())
+      .filter(metrics => (!startDate || metrics.date >= startDate) && (!endDate || metrics.date <= endDate))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
   async createOrUpdateRiskMetrics(metrics: InsertRiskMetrics): Promise<RiskMetrics> {
     const existing = this.riskMetrics.get(metrics.date);
     
     if (existing) {
-      const updated = { ...existing, ...metrics };
+      const updated = { ...existing, ...metrics, source: "manual" };
       this.riskMetrics.set(metrics.date, updated);
       return updated;
     } else {
@@ -547,6 +941,7 @@ export class MemStorage implements IStorage {
         dailyRisk: metrics.dailyRisk || null,
         positionSize: metrics.positionSize || null,
         riskRewardRatio: metrics.riskRewardRatio || null,
+        source: "manual",
         id: this.currentRiskId++
       };
       this.riskMetrics.set(metrics.date, newMetrics);
@@ -554,64 +949,249 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async getTradingStats(startDate: string, endDate: string): Promise<{
-    totalTrades: number;
-    winRate: number;
-    totalPnL: number;
-    avgWin: number;
-    avgLoss: number;
-    profitFactor: number;
-    emotionalStates: Record<string, number>;
-  }> {
-    const trades = await this.getTradeReviews(startDate, endDate);
-    
-    const totalTrades = trades.length;
-    if (totalTrades === 0) {
-      return {
-        totalTrades: 0,
-        winRate: 0,
-        totalPnL: 0,
-        avgWin: 0,
-        avgLoss: 0,
-        profitFactor: 0,
-        emotionalStates: {}
-      };
+  async recomputeRiskMetrics(): Promise<number> {
+    const startingBalance = toNumber((await this.getAccountSettings()).startingBalance);
+    const derived = deriveRiskMetrics(await this.getBaseCurrencyTrades(), startingBalance);
+
+    // Only derived rows are rebuilt; a manually entered day is kept as entered
+    Array.from(this.riskMetrics.values())
+      .filter(metrics => metrics.source === "derived")
+      .forEach(metrics => this.riskMetrics.delete(metrics.date));
+    const rows = derived.filter(row => !this.riskMetrics.has(row.date));
+    for (const row of rows) {
+      this.riskMetrics.set(row.date, {
+        id: this.currentRiskId++,
+        date: row.date,
+        accountBalance: row.accountBalance ?? null,
+        maxDrawdown: row.maxDrawdown ?? null,
+        dailyRisk: row.dailyRisk ?? null,
+        positionSize: row.positionSize ?? null,
+        riskRewardRatio: row.riskRewardRatio ?? null,
+        source: "derived",
+      });
     }
+    return rows.length;
+  }
 
-    const tradesWithPnL = trades.filter(t => t.pnl && !isNaN(parseFloat(t.pnl)));
-    const winningTrades = tradesWithPnL.filter(t => parseFloat(t.pnl!) > 0);
-    const losingTrades = tradesWithPnL.filter(t => parseFloat(t.pnl!) < 0);
-    
-    const totalPnL = tradesWithPnL.reduce((sum, t) => sum + parseFloat(t.pnl!), 0);
-    const winRate = tradesWithPnL.length > 0 ? (winningTrades.length / tradesWithPnL.length) * 100 : 0;
-    
-    const totalWins = winningTrades.reduce((sum, t) => sum + parseFloat(t.pnl!), 0);
-    const totalLosses = Math.abs(losingTrades.reduce((sum, t) => sum + parseFloat(t.pnl!), 0));
-    
-    const avgWin = winningTrades.length > 0 ? totalWins / winningTrades.length : 0;
-    const avgLoss = losingTrades.length > 0 ? totalLosses / losingTrades.length : 0;
-    const profitFactor = totalLosses > 0 ? totalWins / totalLosses : totalWins > 0 ? 999 : 0;
+  // Import Mappings
+  async getImportMappings(): Promise<ImportMapping[]> {
+    return Array.from(this.importMappings.values()).sort((a, b) => a.broker.localeCompare(b.broker));
+  }
 
-    const emotionalStates: Record<string, number> = {};
-    trades.forEach(trade => {
-      if (trade.emotionalState) {
-        emotionalStates[trade.emotionalState] = (emotionalStates[trade.emotionalState] || 0) + 1;
-      }
-    });
+  async createOrUpdateImportMapping(mapping: InsertImportMapping): Promise<ImportMapping> {
+    const existing = this.importMappings.get(mapping.broker);
+    const saved: ImportMapping = {
+      ...mapping,
+      dateFormat: mapping.dateFormat || "YYYY-MM-DD",
+      decimalSeparator: mapping.decimalSeparator || ".",
+      id: existing ? existing.id : this.currentMappingId++
+    };
+    this.importMappings.set(mapping.broker, saved);
+    return saved;
+  }
 
-    return {
-      totalTrades,
-      winRate: Math.round(winRate),
-      totalPnL: Math.round(totalPnL * 100) / 100,
-      avgWin: Math.round(avgWin * 100) / 100,
-      avgLoss: Math.round(avgLoss * 100) / 100,
-      profitFactor: Math.round(profitFactor * 100) / 100,
-      emotionalStates
+  async deleteImportMapping(id: number): Promise<boolean> {
+    const mapping = Array.from(this.importMappings.values()).find(m => m.id === id);
+    if (!mapping) return false;
+    return this.importMappings.delete(mapping.broker);
+  }
+
+  // Account Settings
+  async getAccountSettings(): Promise<AccountSettings> {
+    return this.accountSettings;
+  }
+
+  async updateAccountSettings(settings: Partial<InsertAccountSettings>): Promise<AccountSettings> {
+    this.accountSettings = { ...this.accountSettings, ...settings };
+    return this.accountSettings;
+  }
+
+  // FX Rates
+  async getFxRates(): Promise<FxRate[]> {
+    return Array.from(this.fxRates.values()).sort((a, b) =>
+      b.date.localeCompare(a.date) || a.fromCurrency.localeCompare(b.fromCurrency)
+    );
+  }
+
+  async upsertFxRates(rates: InsertFxRate[]): Promise<number> {
+    for (const rate of rates) {
+      const key = `${rate.date}:${rate.fromCurrency}:${rate.toCurrency}`;
+      const existing = this.fxRates.get(key);
+      this.fxRates.set(key, { ...rate, id: existing ? existing.id : this.currentFxRateId++ });
+    }
+    return rates.length;
+  }
+
+  async deleteFxRate(id: number): Promise<boolean> {
+    const entry = Array.from(this.fxRates.entries()).find(([, rate]) => rate.id === id);
+    if (!entry) return false;
+    return this.fxRates.delete(entry[0]);
+  }
+
+  // Prop Firm Challenges
+  async getChallenges(): Promise<Challenge[]> {
+    return Array.from(this.challenges.values())
+      .filter(challenge => challenge.isActive)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  async getChallenge(id: number): Promise<Challenge | undefined> {
+    return this.challenges.get(id);
+  }
+
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const created: Challenge = {
+      ...challenge,
+      deadline: challenge.deadline || null,
+      maxDailyLoss: challenge.maxDailyLoss || null,
+      dailyLossType: challenge.dailyLossType || "static",
+      maxDrawdown: challenge.maxDrawdown || null,
+      minTradingDays: challenge.minTradingDays ?? 0,
+      id: this.currentChallengeId++,
+      isActive: true,
     };
+    this.challenges.set(created.id, created);
+    return created;
+  }
+
+  async updateChallenge(id: number, challenge: Partial<InsertChallenge>): Promise<Challenge | undefined> {
+    const existing = this.challenges.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...challenge };
+    this.challenges.set(id, updated);
+    return updated;
+  }
+
+  async deleteChallenge(id: number): Promise<boolean> {
+    const challenge = this.challenges.get(id);
+    if (!challenge) return false;
+
+    this.challenges.set(id, { ...challenge, isActive: false });
+    return true;
+  }
+
+  async getChallengeEvaluations(challengeId: number): Promise<ChallengeEvaluation[]> {
+    return Array.from(this.challengeEvaluations.values())
+      .filter(evaluation => evaluation.challengeId === challengeId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  private async logChallengeEvaluation(status: ChallengeStatus): Promise<void> {
+    const evaluation: ChallengeEvaluation = {
+      id: this.currentEvaluationId++,
+      challengeId: status.challengeId,
+      evaluatedAt: new Date(),
+      status: status.status,
+      balance: String(status.balance),
+      rules: status.rules,
+    };
+    this.challengeEvaluations.set(evaluation.id, evaluation);
+  }
+
+  private async getBaseCurrencyTrades(startDate?: string, endDate?: string, filters?: TradeReviewFilters): Promise<BaseCurrencyTrades> {
+    const trades = await this.getTradeReviews(startDate, endDate, filters);
+    const { baseCurrency } = await this.getAccountSettings();
+    return convertTradesToBase(trades, await this.getFxRates(), baseCurrency);
+  }
+
+  async getTradingStats(startDate: string, endDate: string, basis: PnlBasis = "gross"): Promise<TradingStats> {
+    return calculateTradingStats(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  async getPerformanceBreakdown(by: BreakdownDimension, startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<PerformanceBreakdown> {
+    return calculatePerformanceBreakdown(await this.getBaseCurrencyTrades(startDate, endDate), by, basis);
+  }
+
+  async getTimingAnalytics(startDate: string, endDate: string, basis: PnlBasis = "gross", timezone = "UTC"): Promise<TimingAnalytics> {
+    return calculateTimingAnalytics(await this.getBaseCurrencyTrades(startDate, endDate), basis, timezone);
+  }
+
+  async getEmotionAnalytics(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<EmotionAnalytics> {
+    const checkIns = await this.getEmotionalCheckIns(startDate, endDate);
+    return calculateEmotionAnalytics(await this.getBaseCurrencyTrades(startDate, endDate), checkIns, basis);
+  }
+
+  // Completions are loaded in full: the first completion of a habit, even
+  // outside the range, marks when it started being tracked
+  async getHabitCorrelations(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<HabitCorrelationAnalytics> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id)))).flat();
+    return calculateHabitCorrelations(await this.getBaseCurrencyTrades(startDate, endDate), habits, completions, basis);
+  }
+
+  async getMistakeReport(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<MistakeReport> {
+    return calculateMistakeReport(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  async getCalendarSummary(startDate: string, endDate: string, basis: PnlBasis = "net"): Promise<CalendarSummary> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id, startDate, endDate)))).flat();
+    const checkIns = await this.getEmotionalCheckIns(startDate, endDate);
+    const trades = await this.getBaseCurrencyTrades(startDate, endDate);
+    return calculateCalendarSummary(trades, checkIns, habits, completions, startDate, endDate, basis);
+  }
+
+  async getStreakStats(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<StreakStats> {
+    return calculateStreaks(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  // Earlier trades are loaded too: they set the baseline sizes and trade counts
+  async getTiltEvents(startDate?: string, endDate?: string, kind?: TiltEventKind, basis: PnlBasis = "net"): Promise<TiltEvent[]> {
+    const events = detectTiltEvents(await this.getBaseCurrencyTrades(undefined, endDate), startDate, basis);
+    return kind ? events.filter(event => event.kind === kind) : events;
+  }
+
+  async getRollingMetrics(window: number, unit: RollingWindowUnit, startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<RollingMetrics> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id)))).flat();
+    const trades = await this.getBaseCurrencyTrades(startDate, endDate);
+    return calculateRollingMetrics(trades, habits, completions, window, unit, basis);
+  }
+
+  // Without an explicit starting balance the curve starts from the account setting, else from zero
+  async getEquityCurve(startDate?: string, endDate?: string, basis: PnlBasis = "gross", startingBalance?: number): Promise<EquityCurve> {
+    const balance = startingBalance ?? toNumber((await this.getAccountSettings()).startingBalance) ?? 0;
+    return calculateEquityCurve(await this.getBaseCurrencyTrades(startDate, endDate), basis, balance);
+  }
+
+  async runMonteCarlo(
+    { startDate, endDate }: { startDate?: string; endDate?: string },
+    filters: TradeReviewFilters,
+    options: MonteCarloOptions,
+  ): Promise<MonteCarloResult | null> {
+    return runMonteCarlo(await this.getBaseCurrencyTrades(startDate, endDate, filters), options);
+  }
+
+  async getDailyLimitStatus(date: string): Promise<DailyLimitStatus> {
+    return calculateDailyLimitStatus(await this.getBaseCurrencyTrades(date, date), await this.getAccountSettings(), date);
+  }
+
+  async getChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus> {
+    return evaluateChallenge(await this.getBaseCurrencyTrades(challenge.startDate, challenge.deadline ?? undefined), challenge, today);
+  }
+
+  async refreshChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus> {
+    const status = await this.getChallengeStatus(challenge, today);
+    const [last] = await this.getChallengeEvaluations(challenge.id);
+    if (!last || challengeEvaluationKey(last) !== challengeEvaluationKey(status)) {
+      await this.logChallengeEvaluation(status);
+    }
+    return status;
+  }
+
+  async evaluateChallenges(today: string): Promise<ChallengeStatus[]> {
+    const results: ChallengeStatus[] = [];
+    for (const challenge of await this.getChallenges()) {
+      results.push(await this.refreshChallengeStatus(challenge, today));
+    }
+    return results;
   }
 }
 
 export class DatabaseStorage implements IStorage {
+  private instrumentsSeeded: Promise<void> | null = null;
+
   async getHabits(): Promise<Habit[]> {
     return await db.select().from(habits).where(eq(habits.isActive, true)).orderBy(habits.name);
   }
@@ -656,26 +1236,83 @@ export class DatabaseStorage implements IStorage {
     return completion || undefined;
   }
 
-  async createOrUpdateHabitCompletion(completion: InsertHabitCompletion): Promise<HabitCompletion> {
+  async createOrUpdateHabitCompletion(completion: InsertHabitCompletion, source: HabitCompletionSource = "manual"): Promise<HabitCompletion> {
     const existing = await this.getHabitCompletion(completion.habitId, completion.date);
     
     if (existing) {
       const [updated] = await db.update(habitCompletions)
-        .set({ completed: completion.completed })
+        .set({ completed: completion.completed, source })
         .where(and(eq(habitCompletions.habitId, completion.habitId), eq(habitCompletions.date, completion.date)))
         .returning();
       return updated;
     } else {
-      const [created] = await db.insert(habitCompletions).values(completion).returning();
+      const [created] = await db.insert(habitCompletions).values({ ...completion, source }).returning();
       return created;
     }
   }
 
+  async deleteHabitCompletion(habitId: number, date: string): Promise<boolean> {
+    const result = await db.delete(habitCompletions)
+      .where(and(eq(habitCompletions.habitId, habitId), eq(habitCompletions.date, date)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async evaluateHabitRules(): Promise<number> {
+    const habits = await this.getHabits();
+    if (habits.length === 0) return 0;
+
+    const { trades, journalDates } = await this.getHabitRuleInputs(habits);
+    const completions = await db.select().from(habitCompletions)
+      .where(inArray(habitCompletions.habitId, habits.map(habit => habit.id)));
+
+    const { insert, update, remove } = planHabitCompletionChanges(habits, completions, trades, journalDates);
+    const completedIds = update.filter(completion => completion.completed).map(completion => completion.id);
+    const missedIds = update.filter(completion => !completion.completed).map(completion => completion.id);
+
+    await db.transaction(async (tx) => {
+      if (remove.length > 0) {
+        await tx.delete(habitCompletions).where(inArray(habitCompletions.id, remove.map(completion => completion.id)));
+      }
+      if (completedIds.length > 0) {
+        await tx.update(habitCompletions).set({ completed: true }).where(inArray(habitCompletions.id, completedIds));
+      }
+      if (missedIds.length > 0) {
+        await tx.update(habitCompletions).set({ completed: false }).where(inArray(habitCompletions.id, missedIds));
+      }
+      // A first run over a long history can be many rows; batches stay under Postgres' parameter limit
+      for (let i = 0; i < insert.length; i += HABIT_COMPLETION_BATCH) {
+        const batch = insert.slice(i, i + HABIT_COMPLETION_BATCH);
+        await tx.insert(habitCompletions).values(batch.map(completion => ({ ...completion, source: "auto" })));
+      }
+    });
+    return insert.length + update.length + remove.length;
+  }
+
+  // Trades and journal days are only loaded when some habit has a rule to check them against
+  private async getHabitRuleInputs(habits: Habit[]) {
+    if (!habits.some(habit => habit.ruleType)) return { trades: [], journalDates: [] };
+
+    const journalDates = (await this.getJournalEntries())
+      .filter(entry => entry.content.trim())
+      .map(entry => entry.date);
+    return { trades: await this.getTradeReviews(), journalDates };
+  }
+
   async getEmotionalCheckIn(date: string): Promise<EmotionalCheckIn | undefined> {
     const [checkIn] = await db.select().from(emotionalCheckIns).where(eq(emotionalCheckIns.date, date));
     return checkIn || undefined;
   }
 
+  async getEmotionalCheckIns(startDate?: string, endDate?: string): Promise<EmotionalCheckIn[]> {
+    const conditions: SQL[] = [];
+    if (startDate) conditions.push(gte(emotionalCheckIns.date, startDate));
+    if (endDate) conditions.push(lte(emotionalCheckIns.date, endDate));
+
+    return await db.select().from(emotionalCheckIns)
+      .where(and(...conditions))
+      .orderBy(emotionalCheckIns.date);
+  }
+
   async createOrUpdateEmotionalCheckIn(checkIn: InsertEmotionalCheckIn): Promise<EmotionalCheckIn> {
     const existing = await this.getEmotionalCheckIn(checkIn.date);
     
@@ -696,6 +1333,10 @@ export class DatabaseStorage implements IStorage {
     return entry || undefined;
   }
 
+  async getJournalEntries(): Promise<JournalEntry[]> {
+    return await db.select().from(journalEntries).orderBy(journalEntries.date);
+  }
+
   async createOrUpdateJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry> {
     const existing = await this.getJournalEntry(entry.date);
     
@@ -711,17 +1352,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTradeReviews(startDate?: string, endDate?: string): Promise<TradeReview[]> {
-    let query = db.select().from(tradeReviews);
+  async getTradeReviews(startDate?: string, endDate?: string, filters: TradeReviewFilters = {}): Promise<TradeReview[]> {
+    const conditions: SQL[] = [];
     
-    if (startDate && endDate) {
-      query = query.where(and(
-        gte(tradeReviews.date, startDate),
-        lte(tradeReviews.date, endDate)
-      ));
-    }
+    if (startDate) conditions.push(gte(tradeReviews.date, startDate));
+    if (endDate) conditions.push(lte(tradeReviews.date, endDate));
+    if (filters.symbol) conditions.push(eq(tradeReviews.symbol, filters.symbol));
+    if (filters.setup) conditions.push(eq(tradeReviews.setup, filters.setup));
+    if (filters.tag) conditions.push(arrayContains(tradeReviews.tags, [filters.tag]));
     
-    return await query.orderBy(desc(tradeReviews.date));
+    return await db.select().from(tradeReviews)
+      .where(and(...conditions))
+      .orderBy(desc(tradeReviews.date));
   }
 
   async getTradeReview(id: number): Promise<TradeReview | undefined> {
@@ -729,21 +1371,182 @@ export class DatabaseStorage implements IStorage {
     return review || undefined;
   }
 
+  async getTradeReviewByExternalId(externalId: string): Promise<TradeReview | undefined> {
+    const [review] = await db.select().from(tradeReviews).where(eq(tradeReviews.externalId, externalId));
+    return review || undefined;
+  }
+
+  async getInstruments(): Promise<Instrument[]> {
+    await this.seedDefaultInstruments();
+    return await db.select().from(instruments).where(eq(instruments.isActive, true)).orderBy(instruments.symbol);
+  }
+
+  // Seeds the defaults into an empty table on first use. Removed instruments
+  // are kept as inactive rows, so deleting a default doesn't bring it back.
+  private seedDefaultInstruments(): Promise<void> {
+    this.instrumentsSeeded ??= (async () => {
+      const [existing] = await db.select({ id: instruments.id }).from(instruments).limit(1);
+      if (!existing) {
+        await db.insert(instruments).values(DEFAULT_INSTRUMENTS).onConflictDoNothing();
+      }
+    })().catch(error => {
+      this.instrumentsSeeded = null;
+      throw error;
+    });
+    return this.instrumentsSeeded;
+  }
+
+  async getInstrument(id: number): Promise<Instrument | undefined> {
+    const [instrument] = await db.select().from(instruments).where(eq(instruments.id, id));
+    return instrument || undefined;
+  }
+
+  async createInstrument(instrument: InsertInstrument): Promise<Instrument> {
+    const [created] = await db.insert(instruments).values(instrument).returning();
+    await this.relinkTrades(created);
+    return created;
+  }
+
+  async updateInstrument(id: number, instrument: Partial<InsertInstrument>): Promise<Instrument | undefined> {
+    const [updated] = await db.update(instruments).set(instrument).where(eq(instruments.id, id)).returning();
+    if (updated) await this.relinkTrades(updated);
+    return updated || undefined;
+  }
+
+  async deleteInstrument(id: number): Promise<boolean> {
+    const result = await db.update(instruments).set({ isActive: false }).where(eq(instruments.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Re-resolving the symbol canonicalizes matching trades and recomputes their P&L.
+  // Symbols are compared normalized, as matchInstrument does.
+  private async relinkTrades(instrument: Instrument) {
+    const names = [instrument.symbol, ...(instrument.aliases || [])].map(normalizeSymbol);
+    const trades = await db.select().from(tradeReviews).where(or(
+      eq(tradeReviews.instrumentId, instrument.id),
+      inArray(sql`regexp_replace(upper(${tradeReviews.symbol}), '[^A-Z0-9]', '', 'g')`, names),
+    ));
+    if (trades.length === 0) return;
+
+    const context: PricingContext = { instruments: await this.getInstruments(), rates: await this.getFxRates() };
+    await db.transaction(async (tx) => {
+      for (const trade of trades) {
+        await tx.update(tradeReviews).set(await this.repricedValues(trade, {}, context)).where(eq(tradeReviews.id, trade.id));
+      }
+    });
+  }
+
+  private async resolveSymbol(symbol: string) {
+    return resolveInstrument(await this.getInstruments(), symbol);
+  }
+
+  // Resolves the instrument with its point value in the trade's currency, which
+  // defaults to the quote currency; null when no FX rate bridges the two
+  private async resolvePricing(trade: { symbol: string; currency?: string | null; date: string }, context?: PricingContext) {
+    const resolved = resolveInstrument(context?.instruments || await this.getInstruments(), trade.symbol);
+    const currency = trade.currency || resolved.quoteCurrency;
+    const pointValue = currency && currency !== resolved.quoteCurrency
+      ? convertPointValue(resolved.pointValue, resolved.quoteCurrency, currency, trade.date, context?.rates || await this.getFxRates())
+      : resolved.pointValue;
+    return { ...resolved, currency, pointValue };
+  }
+
+  // An update's values with the instrument re-resolved and P&L and risk recomputed
+  private async repricedValues(existing: TradeReview, review: Partial<InsertTradeReview>, context?: PricingContext): Promise<Partial<TradeReview>> {
+    const merged = { ...existing, ...review };
+    const { instrumentId, symbol, pointValue, currency } = await this.resolvePricing(merged, context);
+    const pnlFields = resolvePnl(merged, manualPnlForUpdate(existing, review), pointValue);
+    return {
+      ...review,
+      symbol,
+      instrumentId,
+      currency,
+      ...pnlFields,
+      ...resolveRisk({ ...merged, ...pnlFields }, manualRiskForUpdate(existing, review, pointValue), pointValue),
+    };
+  }
+
   async createTradeReview(review: InsertTradeReview): Promise<TradeReview> {
-    const [created] = await db.insert(tradeReviews).values(review).returning();
+    const { instrumentId, symbol, pointValue, currency } = await this.resolvePricing(review);
+    const pnlFields = resolvePnl(review, review.pnl, pointValue);
+    const [created] = await db.insert(tradeReviews)
+      .values({
+        ...review,
+        symbol,
+        instrumentId,
+        currency,
+        ...pnlFields,
+        ...resolveRisk({ ...review, ...pnlFields }, review.initialRisk, pointValue),
+      })
+      .returning();
     return created;
   }
 
   async updateTradeReview(id: number, review: Partial<InsertTradeReview>): Promise<TradeReview | undefined> {
-    const [updated] = await db.update(tradeReviews).set(review).where(eq(tradeReviews.id, id)).returning();
+    let values: Partial<TradeReview> = review;
+    
+    if (affectsRisk(review)) {
+      const existing = await this.getTradeReview(id);
+      if (!existing) return undefined;
+      values = await this.repricedValues(existing, review);
+    }
+    
+    const [updated] = await db.update(tradeReviews).set(values).where(eq(tradeReviews.id, id)).returning();
     return updated || undefined;
   }
 
+  async upsertTradeReviewByExternalId(review: InsertTradeReview & { externalId: string }): Promise<{ trade: TradeReview; created: boolean }> {
+    const existing = await this.getTradeReviewByExternalId(review.externalId);
+    
+    if (existing) {
+      const updated = await this.updateTradeReview(existing.id, review);
+      return { trade: updated!, created: false };
+    } else {
+      const created = await this.createTradeReview(review);
+      return { trade: created, created: true };
+    }
+  }
+
   async deleteTradeReview(id: number): Promise<boolean> {
+    await db.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, id));
     const result = await db.delete(tradeReviews).where(eq(tradeReviews.id, id));
     return result.rowCount > 0;
   }
 
+  async getTradeExecutions(tradeId: number): Promise<TradeExecution[]> {
+    return await db.select().from(tradeExecutions)
+      .where(eq(tradeExecutions.tradeId, tradeId))
+      .orderBy(tradeExecutions.executedAt);
+  }
+
+  async replaceTradeExecutions(tradeId: number, executions: InsertTradeExecution[]): Promise<TradeReview | undefined> {
+    const trade = await this.getTradeReview(tradeId);
+    if (!trade) return undefined;
+
+    await db.transaction(async (tx) => {
+      await tx.delete(tradeExecutions).where(eq(tradeExecutions.tradeId, tradeId));
+      if (executions.length > 0) {
+        await tx.insert(tradeExecutions).values(executions.map(e => ({ ...e, tradeId })));
+      }
+    });
+
+    const { pointValue } = await this.resolvePricing(trade);
+    const summary = summarizeExecutions(executions, trade.side, pointValue ?? 1);
+    if (!summary) return trade;
+
+    // Realized P&L from fills is authoritative, so it is stored as computed rather than manual.
+    // Without an FX rate it can't be stated in the trade's currency and the existing P&L stays.
+    // The trade keeps its own date: the summary's is the UTC day, the trader's may differ.
+    const { pnl, date, ...fills } = summary;
+    const pnlFields = pointValue !== null ? { pnl, pnlComputed: pnl, pnlOverride: false } : {};
+    const risk = resolveRisk({ ...trade, ...fills, ...pnlFields }, manualRiskForUpdate(trade, {}, pointValue), pointValue);
+    const [updated] = await db.update(tradeReviews)
+      .set({ ...fills, ...pnlFields, ...risk })
+      .where(eq(tradeReviews.id, tradeId))
+      .returning();
+    return updated;
+  }
+
   async getGoals(): Promise<GoalTracking[]> {
     return await db.select().from(goalTracking).where(eq(goalTracking.isActive, true)).orderBy(goalTracking.title);
   }
@@ -773,12 +1576,29 @@ export class DatabaseStorage implements IStorage {
     return metrics || undefined;
   }
 
+  async getLatestRiskMetrics(onOrBefore: string): Promise<RiskMetrics | undefined> {
+    const [metrics] = await db.select().from(riskMetrics)
+      .where(lte(riskMetrics.date, onOrBefore))
+      .orderBy(desc(riskMetrics.date))
+      .limit(1);
+    return metrics || undefined;
+  }
+
+  async getRiskMetricsHistory(startDate?: string, endDate?: string): Promise<RiskMetrics[]> {
+    const conditions: SQL[] = [];
+    if (startDate) conditions.push(gte(riskMetrics.date, startDate));
+    if (endDate) conditions.push(lte(riskMetrics.date, endDate));
+    return await db.select().from(riskMetrics)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(riskMetrics.date);
+  }
+
   async createOrUpdateRiskMetrics(metrics: InsertRiskMetrics): Promise<RiskMetrics> {
     const existing = await this.getRiskMetrics(metrics.date);
     
     if (existing) {
       const [updated] = await db.update(riskMetrics)
-        .set(metrics)
+        .set({ ...metrics, source: "manual" })
         .where(eq(riskMetrics.date, metrics.date))
         .returning();
       return updated;
@@ -788,6 +1608,121 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async recomputeRiskMetrics(): Promise<number> {
+    const startingBalance = toNumber((await this.getAccountSettings()).startingBalance);
+    const derived = deriveRiskMetrics(await this.getBaseCurrencyTrades(), startingBalance);
+
+    // Only derived rows are rebuilt; a manually entered day is kept as entered
+    const manualDates = new Set((await db.select({ date: riskMetrics.date }).from(riskMetrics)
+      .where(eq(riskMetrics.source, "manual"))).map(row => row.date));
+    const rows = derived.filter(row => !manualDates.has(row.date));
+    await db.transaction(async (tx) => {
+      await tx.delete(riskMetrics).where(eq(riskMetrics.source, "derived"));
+      if (rows.length > 0) {
+        await tx.insert(riskMetrics).values(rows.map(row => ({ ...row, source: "derived" })));
+      }
+    });
+    return rows.length;
+  }
+
+  async getImportMappings(): Promise<ImportMapping[]> {
+    return await db.select().from(importMappings).orderBy(importMappings.broker);
+  }
+
+  async createOrUpdateImportMapping(mapping: InsertImportMapping): Promise<ImportMapping> {
+    const [saved] = await db.insert(importMappings)
+      .values(mapping)
+      .onConflictDoUpdate({
+        target: importMappings.broker,
+        set: {
+          columns: mapping.columns,
+          dateFormat: mapping.dateFormat,
+          decimalSeparator: mapping.decimalSeparator,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteImportMapping(id: number): Promise<boolean> {
+    const result = await db.delete(importMappings).where(eq(importMappings.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getAccountSettings(): Promise<AccountSettings> {
+    const [settings] = await db.select().from(accountSettings).limit(1);
+    if (settings) return settings;
+
+    const [created] = await db.insert(accountSettings).values({}).returning();
+    return created;
+  }
+
+  async updateAccountSettings(settings: Partial<InsertAccountSettings>): Promise<AccountSettings> {
+    const { id } = await this.getAccountSettings();
+    const [updated] = await db.update(accountSettings).set(settings).where(eq(accountSettings.id, id)).returning();
+    return updated;
+  }
+
+  async getFxRates(): Promise<FxRate[]> {
+    return await db.select().from(fxRates).orderBy(desc(fxRates.date), fxRates.fromCurrency);
+  }
+
+  async upsertFxRates(rates: InsertFxRate[]): Promise<number> {
+    if (rates.length === 0) return 0;
+    const saved = await db.insert(fxRates)
+      .values(rates)
+      .onConflictDoUpdate({
+        target: [fxRates.date, fxRates.fromCurrency, fxRates.toCurrency],
+        set: { rate: sql`excluded.rate` },
+      })
+      .returning({ id: fxRates.id });
+    return saved.length;
+  }
+
+  async deleteFxRate(id: number): Promise<boolean> {
+    const result = await db.delete(fxRates).where(eq(fxRates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getChallenges(): Promise<Challenge[]> {
+    return await db.select().from(challenges).where(eq(challenges.isActive, true)).orderBy(desc(challenges.startDate));
+  }
+
+  async getChallenge(id: number): Promise<Challenge | undefined> {
+    const [challenge] = await db.select().from(challenges).where(eq(challenges.id, id));
+    return challenge || undefined;
+  }
+
+  async createChallenge(challenge: InsertChallenge): Promise<Challenge> {
+    const [created] = await db.insert(challenges).values(challenge).returning();
+    return created;
+  }
+
+  async updateChallenge(id: number, challenge: Partial<InsertChallenge>): Promise<Challenge | undefined> {
+    const [updated] = await db.update(challenges).set(challenge).where(eq(challenges.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteChallenge(id: number): Promise<boolean> {
+    const result = await db.update(challenges).set({ isActive: false }).where(eq(challenges.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getChallengeEvaluations(challengeId: number): Promise<ChallengeEvaluation[]> {
+    return await db.select().from(challengeEvaluations)
+      .where(eq(challengeEvaluations.challengeId, challengeId))
+      .orderBy(desc(challengeEvaluations.id));
+  }
+
+  private async logChallengeEvaluation(status: ChallengeStatus): Promise<void> {
+    await db.insert(challengeEvaluations).values({
+      challengeId: status.challengeId,
+      status: status.status,
+      balance: String(status.balance),
+      rules: status.rules,
+    });
+  }
+
   async getHabitsWithStats(date: string): Promise<HabitWithStats[]> {
     const allHabits = await this.getHabits();
     const habitsWithStats: HabitWithStats[] = [];
@@ -831,6 +1766,7 @@ export class DatabaseStorage implements IStorage {
         currentStreak,
         completionRate,
         completedToday,
+        todaySource: (todayCompletion?.source as HabitCompletionSource | undefined) ?? null,
         monthlyCompletions: completedDays,
         totalDaysThisMonth: daysInMonth
       });
@@ -907,73 +1843,106 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getTradingStats(startDate: string, endDate: string): Promise<{
-    totalTrades: number;
-    winRate: number;
-    totalPnL: number;
-    avgWin: number;
-    avgLoss: number;
-    profitFactor: number;
-    emotionalStates: Record<string, number>;
-  }> {
-    const trades = await this.getTradeReviews(startDate, endDate);
-    
-    const totalTrades = trades.length;
-    const emotionalStates: Record<string, number> = {};
-    
-    if (totalTrades === 0) {
-      return {
-        totalTrades: 0,
-        winRate: 0,
-        totalPnL: 0,
-        avgWin: 0,
-        avgLoss: 0,
-        profitFactor: 0,
-        emotionalStates: {}
-      };
+  private async getBaseCurrencyTrades(startDate?: string, endDate?: string, filters?: TradeReviewFilters): Promise<BaseCurrencyTrades> {
+    const [trades, settings, rates] = await Promise.all([
+      this.getTradeReviews(startDate, endDate, filters),
+      this.getAccountSettings(),
+      this.getFxRates(),
+    ]);
+    return convertTradesToBase(trades, rates, settings.baseCurrency);
+  }
+
+  async getTradingStats(startDate: string, endDate: string, basis: PnlBasis = "gross"): Promise<TradingStats> {
+    return calculateTradingStats(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  async getPerformanceBreakdown(by: BreakdownDimension, startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<PerformanceBreakdown> {
+    return calculatePerformanceBreakdown(await this.getBaseCurrencyTrades(startDate, endDate), by, basis);
+  }
+
+  async getTimingAnalytics(startDate: string, endDate: string, basis: PnlBasis = "gross", timezone = "UTC"): Promise<TimingAnalytics> {
+    return calculateTimingAnalytics(await this.getBaseCurrencyTrades(startDate, endDate), basis, timezone);
+  }
+
+  async getEmotionAnalytics(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<EmotionAnalytics> {
+    const checkIns = await this.getEmotionalCheckIns(startDate, endDate);
+    return calculateEmotionAnalytics(await this.getBaseCurrencyTrades(startDate, endDate), checkIns, basis);
+  }
+
+  // Completions are loaded in full: the first completion of a habit, even
+  // outside the range, marks when it started being tracked
+  async getHabitCorrelations(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<HabitCorrelationAnalytics> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id)))).flat();
+    return calculateHabitCorrelations(await this.getBaseCurrencyTrades(startDate, endDate), habits, completions, basis);
+  }
+
+  async getMistakeReport(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<MistakeReport> {
+    return calculateMistakeReport(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  async getCalendarSummary(startDate: string, endDate: string, basis: PnlBasis = "net"): Promise<CalendarSummary> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id, startDate, endDate)))).flat();
+    const checkIns = await this.getEmotionalCheckIns(startDate, endDate);
+    const trades = await this.getBaseCurrencyTrades(startDate, endDate);
+    return calculateCalendarSummary(trades, checkIns, habits, completions, startDate, endDate, basis);
+  }
+
+  async getStreakStats(startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<StreakStats> {
+    return calculateStreaks(await this.getBaseCurrencyTrades(startDate, endDate), basis);
+  }
+
+  // Earlier trades are loaded too: they set the baseline sizes and trade counts
+  async getTiltEvents(startDate?: string, endDate?: string, kind?: TiltEventKind, basis: PnlBasis = "net"): Promise<TiltEvent[]> {
+    const events = detectTiltEvents(await this.getBaseCurrencyTrades(undefined, endDate), startDate, basis);
+    return kind ? events.filter(event => event.kind === kind) : events;
+  }
+
+  async getRollingMetrics(window: number, unit: RollingWindowUnit, startDate?: string, endDate?: string, basis: PnlBasis = "net"): Promise<RollingMetrics> {
+    const habits = await this.getHabits();
+    const completions = (await Promise.all(habits.map(habit => this.getHabitCompletions(habit.id)))).flat();
+    const trades = await this.getBaseCurrencyTrades(startDate, endDate);
+    return calculateRollingMetrics(trades, habits, completions, window, unit, basis);
+  }
+
+  // Without an explicit starting balance the curve starts from the account setting, else from zero
+  async getEquityCurve(startDate?: string, endDate?: string, basis: PnlBasis = "gross", startingBalance?: number): Promise<EquityCurve> {
+    const balance = startingBalance ?? toNumber((await this.getAccountSettings()).startingBalance) ?? 0;
+    return calculateEquityCurve(await this.getBaseCurrencyTrades(startDate, endDate), basis, balance);
+  }
+
+  async runMonteCarlo(
+    { startDate, endDate }: { startDate?: string; endDate?: string },
+    filters: TradeReviewFilters,
+    options: MonteCarloOptions,
+  ): Promise<MonteCarloResult | null> {
+    return runMonteCarlo(await this.getBaseCurrencyTrades(startDate, endDate, filters), options);
+  }
+
+  async getDailyLimitStatus(date: string): Promise<DailyLimitStatus> {
+    return calculateDailyLimitStatus(await this.getBaseCurrencyTrades(date, date), await this.getAccountSettings(), date);
+  }
+
+  async getChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus> {
+    return evaluateChallenge(await this.getBaseCurrencyTrades(challenge.startDate, challenge.deadline ?? undefined), challenge, today);
+  }
+
+  async refreshChallengeStatus(challenge: Challenge, today: string): Promise<ChallengeStatus> {
+    const status = await this.getChallengeStatus(challenge, today);
+    const [last] = await this.getChallengeEvaluations(challenge.id);
+    if (!last || challengeEvaluationKey(last) !== challengeEvaluationKey(status)) {
+      await this.logChallengeEvaluation(status);
     }
-    
-    let wins = 0;
-    let totalPnL = 0;
-    let totalWins = 0;
-    let totalLosses = 0;
-    let winCount = 0;
-    let lossCount = 0;
-    
-    trades.forEach(trade => {
-      if (trade.pnl) {
-        const pnl = parseFloat(trade.pnl);
-        totalPnL += pnl;
-        
-        if (pnl > 0) {
-          wins++;
-          totalWins += pnl;
-          winCount++;
-        } else if (pnl < 0) {
-          totalLosses += Math.abs(pnl);
-          lossCount++;
-        }
-      }
-      
-      if (trade.emotionalState) {
-        emotionalStates[trade.emotionalState] = (emotionalStates[trade.emotionalState] || 0) + 1;
-      }
-    });
-    
-    const winRate = (wins / totalTrades) * 100;
-    const avgWin = winCount > 0 ? totalWins / winCount : 0;
-    const avgLoss = lossCount > 0 ? totalLosses / lossCount : 0;
-    const profitFactor = avgLoss > 0 ? avgWin / avgLoss : 0;
-    
-    return {
-      totalTrades,
-      winRate: Math.round(winRate),
-      totalPnL: Math.round(totalPnL * 100) / 100,
-      avgWin: Math.round(avgWin * 100) / 100,
-      avgLoss: Math.round(avgLoss * 100) / 100,
-      profitFactor: Math.round(profitFactor * 100) / 100,
-      emotionalStates
-    };
+    return status;
+  }
+
+  async evaluateChallenges(today: string): Promise<ChallengeStatus[]> {
+    const results: ChallengeStatus[] = [];
+    for (const challenge of await this.getChallenges()) {
+      results.push(await this.refreshChallengeStatus(challenge, today));
+    }
+    return results;
   }
 }
 
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
@@ -9,6 +9,9 @@ export const habits = pgTable("habits", {
   description: text("description"),
   category: text("category").notNull().default("custom"),
   isActive: boolean("is_active").notNull().default(true),
+  // Optional rule that ticks the habit from trade and journal data; see habitRuleTypes
+  ruleType: text("rule_type"),
+  ruleValue: text("rule_value"), // trade limit, or the mistake or tag to avoid
 });
 
 export const habitCompletions = pgTable("habit_completions", {
@@ -16,6 +19,7 @@ export const habitCompletions = pgTable("habit_completions", {
   habitId: integer("habit_id").notNull(),
   date: date("date").notNull(),
   completed: boolean("completed").notNull().default(false),
+  source: text("source").notNull().default("manual"), // "auto" when set by the habit's rule; manual entries are never overwritten
 });
 
 export const emotionalCheckIns = pgTable("emotional_check_ins", {
@@ -30,15 +34,41 @@ export const journalEntries = pgTable("journal_entries", {
   content: text("content").notNull(),
 });
 
+export const instruments = pgTable("instruments", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull().unique(), // canonical symbol, e.g. "EURUSD"
+  aliases: text("aliases").array(), // alternative spellings, e.g. "EUR/USD", "EURUSD.m"
+  assetClass: text("asset_class").notNull(), // "forex", "futures", "stock", "crypto", "commodity", "index"
+  quoteCurrency: text("quote_currency").notNull().default("USD"),
+  tickSize: text("tick_size"),
+  tickValue: text("tick_value"), // value of one tick per unit of quantity, in quote currency
+  contractSize: text("contract_size"), // used when tick size/value are not set
+  isActive: boolean("is_active").notNull().default(true),
+});
+
 export const tradeReviews = pgTable("trade_reviews", {
   id: serial("id").primaryKey(),
   date: date("date").notNull(),
+  entryTime: timestamp("entry_time", { withTimezone: true }),
+  exitTime: timestamp("exit_time", { withTimezone: true }),
   symbol: text("symbol").notNull(),
+  instrumentId: integer("instrument_id"),
   side: text("side").notNull(), // "long" or "short"
   entryPrice: text("entry_price").notNull(),
   exitPrice: text("exit_price"),
   quantity: text("quantity").notNull(),
   pnl: text("pnl"),
+  pnlComputed: text("pnl_computed"), // gross P&L derived from prices, size and point value
+  pnlOverride: boolean("pnl_override").notNull().default(false), // manual pnl disagrees with pnlComputed
+  commission: text("commission"), // broker commission as a positive cost
+  swap: text("swap"), // overnight swap, signed (positive is a credit)
+  fees: text("fees"), // exchange, regulatory and other fees as a positive cost
+  currency: text("currency"), // currency of pnl, commission, swap and fees; null means base currency
+  plannedStop: text("planned_stop"),
+  plannedTarget: text("planned_target"),
+  initialRisk: text("initial_risk"), // money at risk at entry; derived from plannedStop when not entered
+  rMultiple: text("r_multiple"), // pnl / initialRisk
+  externalId: text("external_id").unique(), // broker ticket, e.g. "mt5:12345678"
   tags: text("tags").array(),
   emotionalState: text("emotional_state"), // "calm", "excited", "fearful", "greedy", "confident"
   setup: text("setup"), // "breakout", "pullback", "reversal", etc.
@@ -47,6 +77,16 @@ export const tradeReviews = pgTable("trade_reviews", {
   rating: integer("rating"), // 1-5 stars
 });
 
+export const tradeExecutions = pgTable("trade_executions", {
+  id: serial("id").primaryKey(),
+  tradeId: integer("trade_id").notNull(),
+  executedAt: timestamp("executed_at", { withTimezone: true }).notNull(),
+  side: text("side").notNull(), // "buy" or "sell"
+  price: text("price").notNull(),
+  quantity: text("quantity").notNull(),
+  fees: text("fees"),
+});
+
 export const goalTracking = pgTable("goal_tracking", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -67,8 +107,74 @@ export const riskMetrics = pgTable("risk_metrics", {
   dailyRisk: text("daily_risk"),
   positionSize: text("position_size"),
   riskRewardRatio: text("risk_reward_ratio"),
+  source: text("source").notNull().default("manual"), // "manual", or "derived" when recomputed from trades
+});
+
+export const importMappings = pgTable("import_mappings", {
+  id: serial("id").primaryKey(),
+  broker: text("broker").notNull().unique(),
+  columns: jsonb("columns").$type<Record<string, string>>().notNull(), // trade field -> CSV header
+  dateFormat: text("date_format").notNull().default("YYYY-MM-DD"),
+  decimalSeparator: text("decimal_separator").notNull().default("."), // "." or ","
+});
+
+// Single-row table holding account-wide settings
+export const accountSettings = pgTable("account_settings", {
+  id: serial("id").primaryKey(),
+  baseCurrency: text("base_currency").notNull().default("USD"), // currency all analytics are reported in
+  startingBalance: text("starting_balance"), // account balance before the first trade, in base currency
+  // Daily circuit breaker; a null limit is not enforced
+  maxDailyLoss: text("max_daily_loss"), // positive amount in base currency
+  maxTradesPerDay: integer("max_trades_per_day"),
+  maxConsecutiveLosses: integer("max_consecutive_losses"),
+  dailyLimitMode: text("daily_limit_mode").notNull().default("block"), // "warn" or "block"
+});
+
+export const fxRates = pgTable("fx_rates", {
+  id: serial("id").primaryKey(),
+  date: date("date").notNull(),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: text("rate").notNull(), // units of toCurrency per one unit of fromCurrency
+}, (table) => [
+  unique().on(table.date, table.fromCurrency, table.toCurrency),
+]);
+
+// Prop firm evaluation. Amounts are in base currency and trades are counted
+// from startDate until the deadline.
+export const challenges = pgTable("challenges", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  startDate: date("start_date").notNull(),
+  deadline: date("deadline"),
+  startingBalance: text("starting_balance").notNull(),
+  profitTarget: text("profit_target").notNull(), // amount above the starting balance
+  maxDailyLoss: text("max_daily_loss"),
+  dailyLossType: text("daily_loss_type").notNull().default("static"), // "static" from the day's opening balance, "trailing" from its high
+  maxDrawdown: text("max_drawdown"), // below the starting balance
+  minTradingDays: integer("min_trading_days").notNull().default(0),
+  isActive: boolean("is_active").notNull().default(true),
+});
+
+// A log of status changes rather than of every evaluation: a row is only added
+// when the status, balance or a rule's result differs from the previous row
+export const challengeEvaluations = pgTable("challenge_evaluations", {
+  id: serial("id").primaryKey(),
+  challengeId: integer("challenge_id").notNull(),
+  evaluatedAt: timestamp("evaluated_at", { withTimezone: true }).notNull().defaultNow(),
+  status: text("status").notNull(), // "active", "passed" or "failed"
+  balance: text("balance").notNull(),
+  rules: jsonb("rules").$type<ChallengeRuleResult[]>().notNull(),
 });
 
+// Trade fields a CSV column can be mapped onto, in wizard display order
+export const importableTradeFields = [
+  "date", "entryTime", "exitTime", "symbol", "side", "entryPrice", "exitPrice", "quantity", "pnl", "commission", "swap", "fees",
+  "currency", "plannedStop", "plannedTarget", "initialRisk", "setup", "tags", "emotionalState", "mistakes", "lessons", "rating", "externalId",
+] as const;
+
+export const importDateFormats = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD.MM.YYYY", "YYYY.MM.DD"] as const;
+
 // Relations
 export const habitsRelations = relations(habits, ({ many }) => ({
   completions: many(habitCompletions),
@@ -81,14 +187,50 @@ export const habitCompletionsRelations = relations(habitCompletions, ({ one }) =
   }),
 }));
 
+export const instrumentsRelations = relations(instruments, ({ many }) => ({
+  trades: many(tradeReviews),
+}));
+
+export const tradeReviewsRelations = relations(tradeReviews, ({ one, many }) => ({
+  instrument: one(instruments, {
+    fields: [tradeReviews.instrumentId],
+    references: [instruments.id],
+  }),
+  executions: many(tradeExecutions),
+}));
+
+export const tradeExecutionsRelations = relations(tradeExecutions, ({ one }) => ({
+  trade: one(tradeReviews, {
+    fields: [tradeExecutions.tradeId],
+    references: [tradeReviews.id],
+  }),
+}));
+
+export const challengesRelations = relations(challenges, ({ many }) => ({
+  evaluations: many(challengeEvaluations),
+}));
+
+export const challengeEvaluationsRelations = relations(challengeEvaluations, ({ one }) => ({
+  challenge: one(challenges, {
+    fields: [challengeEvaluations.challengeId],
+    references: [challenges.id],
+  }),
+}));
+
 // Insert schemas
-export const insertHabitSchema = createInsertSchema(habits).omit({
+export const habitRuleTypes = ["maxTradesPerDay", "noMistake", "noTag", "journalWritten"] as const;
+
+export const insertHabitSchema = createInsertSchema(habits, {
+  ruleType: z.enum(habitRuleTypes).nullish(),
+  ruleValue: z.string().trim().nullish(),
+}).omit({
   id: true,
   isActive: true,
 });
 
 export const insertHabitCompletionSchema = createInsertSchema(habitCompletions).omit({
   id: true,
+  source: true,
 });
 
 export const insertEmotionalCheckInSchema = createInsertSchema(emotionalCheckIns).omit({
@@ -99,8 +241,30 @@ export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit(
   id: true,
 });
 
-export const insertTradeReviewSchema = createInsertSchema(tradeReviews).omit({
+export const insertInstrumentSchema = createInsertSchema(instruments, {
+  symbol: (schema) => schema.min(1),
+}).omit({
+  id: true,
+  isActive: true,
+});
+
+export const insertTradeReviewSchema = createInsertSchema(tradeReviews, {
+  entryTime: z.coerce.date().nullish(),
+  exitTime: z.coerce.date().nullish(),
+}).omit({
   id: true,
+  instrumentId: true,
+  pnlComputed: true,
+  pnlOverride: true,
+  rMultiple: true,
+});
+
+export const insertTradeExecutionSchema = createInsertSchema(tradeExecutions, {
+  executedAt: z.coerce.date(),
+  side: z.enum(["buy", "sell"]),
+}).omit({
+  id: true,
+  tradeId: true,
 });
 
 export const insertGoalTrackingSchema = createInsertSchema(goalTracking).omit({
@@ -110,29 +274,501 @@ export const insertGoalTrackingSchema = createInsertSchema(goalTracking).omit({
 
 export const insertRiskMetricsSchema = createInsertSchema(riskMetrics).omit({
   id: true,
+  source: true,
+});
+
+export const insertImportMappingSchema = createInsertSchema(importMappings, {
+  broker: (schema) => schema.min(1),
+  columns: z.record(z.string()),
+  dateFormat: z.enum(importDateFormats),
+  decimalSeparator: z.enum([".", ","]),
+}).omit({
+  id: true,
+});
+
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, "Must be a three-letter currency code");
+
+export const insertAccountSettingsSchema = createInsertSchema(accountSettings, {
+  baseCurrency: currencyCode,
+  startingBalance: z.string().refine(value => !isNaN(parseFloat(value)), "Must be a number").nullish(),
+  maxDailyLoss: z.string().refine(value => parseFloat(value) > 0, "Must be a positive number").nullish(),
+  maxTradesPerDay: z.number().int().positive().nullish(),
+  maxConsecutiveLosses: z.number().int().positive().nullish(),
+  dailyLimitMode: z.enum(["warn", "block"]).optional(),
+}).omit({
+  id: true,
+});
+
+export const insertFxRateSchema = createInsertSchema(fxRates, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  fromCurrency: currencyCode,
+  toCurrency: currencyCode,
+  rate: z.string().refine(value => parseFloat(value) > 0, "Rate must be a positive number"),
+}).omit({
+  id: true,
+});
+
+// Simulation size is capped so one request can't tie up the server
+// Keeps a single simulation run bounded on the request thread
+export const MAX_TRADES_PER_SIMULATION = 1000;
+
+export const monteCarloRequestSchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  symbol: z.string().optional(),
+  setup: z.string().optional(),
+  tag: z.string().optional(),
+  basis: z.enum(["gross", "net"]).default("net"),
+  simulations: z.coerce.number().int().min(100).max(10000).default(1000),
+  tradesPerSimulation: z.coerce.number().int().min(1).max(MAX_TRADES_PER_SIMULATION).optional(), // defaults to the sample size, up to the maximum
+  startingBalance: z.coerce.number().positive("Starting balance must be positive").optional(),
+  ruinPercent: z.coerce.number().gt(0).max(100).default(50), // drawdown from the starting balance that counts as ruin
+  seed: z.coerce.number().int().optional(),
+});
+
+const positiveAmount = z.string().refine(value => parseFloat(value) > 0, "Must be a positive number");
+
+export const insertChallengeSchema = createInsertSchema(challenges, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be YYYY-MM-DD"),
+  deadline: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Deadline must be YYYY-MM-DD").nullish(),
+  startingBalance: positiveAmount,
+  profitTarget: positiveAmount,
+  maxDailyLoss: positiveAmount.nullish(),
+  dailyLossType: z.enum(["static", "trailing"]).optional(),
+  maxDrawdown: positiveAmount.nullish(),
+  minTradingDays: z.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  isActive: true,
+});
+
+export const positionSizeRequestSchema = z.object({
+  symbol: z.string().trim().min(1, "Symbol is required"),
+  accountBalance: z.coerce.number().positive("Account balance must be positive").optional(), // defaults to the latest risk metrics
+  riskPercent: z.coerce.number({ message: "Risk percent must be a number" }).gt(0, "Risk percent must be positive").max(100),
+  entryPrice: z.coerce.number({ message: "Entry price must be a number" }).positive("Entry price must be positive"),
+  stopPrice: z.coerce.number({ message: "Stop price must be a number" }).positive("Stop price must be positive"),
+  // Override the instrument's contract spec
+  tickSize: z.coerce.number().positive().optional(),
+  tickValue: z.coerce.number().positive().optional(),
+  quantityStep: z.coerce.number().positive().optional(),
+  date: z.string().optional(), // FX rate and risk metrics date, defaults to today
+}).refine(request => request.entryPrice !== request.stopPrice, {
+  message: "Stop must differ from entry",
+  path: ["stopPrice"],
+}).refine(request => (request.tickSize === undefined) === (request.tickValue === undefined), {
+  message: "Tick size and tick value must be given together",
+  path: ["tickValue"],
 });
 
 // Types
 export type Habit = typeof habits.$inferSelect;
 export type InsertHabit = z.infer<typeof insertHabitSchema>;
+export type HabitRuleType = typeof habitRuleTypes[number];
+export type HabitCompletionSource = "manual" | "auto";
 export type HabitCompletion = typeof habitCompletions.$inferSelect;
 export type InsertHabitCompletion = z.infer<typeof insertHabitCompletionSchema>;
 export type EmotionalCheckIn = typeof emotionalCheckIns.$inferSelect;
 export type InsertEmotionalCheckIn = z.infer<typeof insertEmotionalCheckInSchema>;
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type Instrument = typeof instruments.$inferSelect;
+export type InsertInstrument = z.infer<typeof insertInstrumentSchema>;
 export type TradeReview = typeof tradeReviews.$inferSelect;
 export type InsertTradeReview = z.infer<typeof insertTradeReviewSchema>;
+export type TradeExecution = typeof tradeExecutions.$inferSelect;
+export type InsertTradeExecution = z.infer<typeof insertTradeExecutionSchema>;
 export type GoalTracking = typeof goalTracking.$inferSelect;
 export type InsertGoalTracking = z.infer<typeof insertGoalTrackingSchema>;
 export type RiskMetrics = typeof riskMetrics.$inferSelect;
 export type InsertRiskMetrics = z.infer<typeof insertRiskMetricsSchema>;
+export type ImportMapping = typeof importMappings.$inferSelect;
+export type InsertImportMapping = z.infer<typeof insertImportMappingSchema>;
+export type ImportableTradeField = typeof importableTradeFields[number];
+export type AccountSettings = typeof accountSettings.$inferSelect;
+export type InsertAccountSettings = z.infer<typeof insertAccountSettingsSchema>;
+export type FxRate = typeof fxRates.$inferSelect;
+export type Challenge = typeof challenges.$inferSelect;
+export type InsertChallenge = z.infer<typeof insertChallengeSchema>;
+export type ChallengeEvaluation = typeof challengeEvaluations.$inferSelect;
+export type InsertFxRate = z.infer<typeof insertFxRateSchema>;
 
 // Extended types for frontend
 export type HabitWithStats = Habit & {
   currentStreak: number;
   completionRate: number;
   completedToday: boolean;
+  todaySource: HabitCompletionSource | null; // null until the day has a completion
   monthlyCompletions: number;
   totalDaysThisMonth: number;
 };
+
+export type ChallengeWithStatus = Challenge & {
+  evaluation: ChallengeStatus;
+};
+
+// Gross P&L is the price move alone; net also deducts commission and fees and adds swap
+export type PnlBasis = "gross" | "net";
+
+export type TradingStats = {
+  basis: PnlBasis; // basis of totalPnL, winRate, avgWin, avgLoss and profitFactor
+  currency: string; // base currency every amount has been converted into
+  unconvertedTrades: number; // trades left out because no FX rate covers their date
+  totalTrades: number;
+  winRate: number;
+  totalPnL: number;
+  grossPnL: number;
+  netPnL: number;
+  totalCommission: number;
+  totalSwap: number;
+  totalFees: number;
+  avgWin: number;
+  avgLoss: number;
+  profitFactor: number;
+  emotionalStates: Record<string, number>;
+  instruments: Record<string, { trades: number; pnl: number }>; // keyed by canonical symbol
+  advanced: AdvancedMetrics;
+  // R metrics cover only trades with an initial risk, on the same basis as totalPnL
+  tradesWithRisk: number;
+  avgR: number | null;
+  avgWinR: number | null;
+  avgLossR: number | null;
+  expectancyR: number | null; // win rate x average win R - loss rate x average loss R
+  rDistribution: RBucket[];
+};
+
+// Null where there are too few trades (or days, or losses) for the metric to be defined
+export type AdvancedMetrics = {
+  expectancy: number | null; // average P&L per trade
+  payoffRatio: number | null; // average win / average loss
+  stdDev: number | null; // sample standard deviation of trade P&L
+  sqn: number | null; // System Quality Number: sqrt(min(trades, 100)) x expectancy / stdDev
+  sharpe: number | null; // annualized mean / standard deviation of daily P&L
+  sortino: number | null; // annualized mean / downside deviation of daily P&L
+  kelly: number | null; // win rate - loss rate / payoff ratio
+  largestWin: number | null;
+  largestLoss: number | null; // most negative trade P&L
+  tradingDays: number;
+};
+
+export const breakdownDimensions = ["setup", "tag", "symbol", "side", "weekday", "month"] as const;
+export type BreakdownDimension = typeof breakdownDimensions[number];
+
+export type BreakdownGroup = {
+  key: string; // setup name, tag, symbol, side, weekday name or YYYY-MM
+  trades: number;
+  winRate: number;
+  pnl: number;
+  expectancy: number; // average P&L per trade
+  profitFactor: number;
+};
+
+export type PerformanceBreakdown = {
+  by: BreakdownDimension;
+  basis: PnlBasis;
+  currency: string;
+  groups: BreakdownGroup[];
+};
+
+export type EmotionOutcome = {
+  key: string; // emotional state or check-in mood
+  trades: number;
+  winRate: number;
+  pnl: number;
+  avgPnl: number;
+  avgLoss: number | null;
+  expectancyR: number | null; // average R, over trades with an initial risk
+  // Average loss in this group relative to the average loss of all other
+  // trades, e.g. 2 for "losses are twice as large"
+  lossMultiple: number | null;
+};
+
+export type EmotionAnalytics = {
+  basis: PnlBasis;
+  currency: string;
+  byEmotionalState: EmotionOutcome[]; // state recorded on the trade itself
+  byMood: EmotionOutcome[]; // mood from that day's emotional check-in
+};
+
+export type HabitPerformanceGroup = {
+  days: number; // trading days
+  trades: number;
+  pnl: number;
+  avgDailyPnl: number | null;
+  winRate: number; // per trade
+};
+
+export type HabitCorrelation = {
+  habitId: number;
+  habitName: string;
+  completed: HabitPerformanceGroup;
+  missed: HabitPerformanceGroup;
+  difference: number | null; // average daily P&L, completed minus missed
+  tStat: number | null; // Welch's t on daily P&L
+  significant: boolean;
+};
+
+export type HabitCorrelationAnalytics = {
+  basis: PnlBasis;
+  currency: string;
+  habits: HabitCorrelation[];
+};
+
+export type MistakeCost = {
+  mistake: string;
+  trades: number;
+  pnl: number; // combined P&L of the trades carrying this mistake
+  avgPnl: number;
+  pnlIfSkipped: number; // period P&L without these trades
+};
+
+export type MistakeFrequency = {
+  month: string; // YYYY-MM
+  trades: number;
+  tradesWithMistakes: number;
+  counts: Record<string, number>; // keyed by mistake
+};
+
+export type MistakeReport = {
+  basis: PnlBasis;
+  currency: string;
+  totalPnl: number;
+  tradesWithMistakes: number;
+  pnlIfAllSkipped: number; // period P&L without any trade carrying a mistake
+  mistakes: MistakeCost[]; // most costly first
+  frequency: MistakeFrequency[];
+};
+
+export type DaySummary = {
+  date: string;
+  trades: number;
+  pnl: number;
+  mood: string | null; // from that day's emotional check-in
+  habitCompletionRate: number | null; // percent of active habits completed; null without habits
+};
+
+export type CalendarSummary = {
+  basis: PnlBasis;
+  currency: string;
+  days: DaySummary[]; // every date in the range, including days without trades
+};
+
+export type MonteCarloRequest = z.infer<typeof monteCarloRequestSchema>;
+
+export type DistributionBucket = {
+  from: number;
+  to: number;
+  count: number;
+};
+
+export type Distribution = {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  histogram: DistributionBucket[];
+};
+
+export type MonteCarloResult = {
+  basis: PnlBasis;
+  currency: string;
+  sampleSize: number; // historical trades resampled from
+  simulations: number;
+  tradesPerSimulation: number;
+  startingBalance: number;
+  ruinBalance: number; // equity at or below this counts as ruin
+  riskOfRuin: number; // percent of simulations that hit the ruin balance
+  finalEquity: Distribution;
+  maxDrawdown: Distribution;
+  maxDrawdownPercent: Distribution;
+  longestLosingStreak: Distribution;
+};
+
+export type StreakLength = {
+  length: number;
+  wins: number; // number of win streaks of this length
+  losses: number;
+};
+
+export type StreakStats = {
+  current: { type: "win" | "loss" | null; length: number };
+  longestWin: number;
+  longestLoss: number;
+  distribution: StreakLength[];
+};
+
+export const tiltEventKinds = ["revenge", "size", "overtrading", "emotion"] as const;
+export type TiltEventKind = typeof tiltEventKinds[number];
+
+export type TiltEvent = {
+  kind: TiltEventKind;
+  date: string;
+  tradeId: number | null; // null for day-level events such as overtrading
+  symbol: string | null;
+  detail: string;
+};
+
+export const rollingWindowUnits = ["trades", "days"] as const;
+export type RollingWindowUnit = typeof rollingWindowUnits[number];
+
+export type RollingPoint = {
+  date: string; // last day of the window
+  tradeId: number | null; // last trade of the window; null for day windows
+  trades: number;
+  winRate: number;
+  expectancy: number;
+  profitFactor: number | null; // null while the window has no losses
+  avgR: number | null;
+  habitCompletion: number | null; // average daily percent over the days the window spans
+};
+
+export type RollingMetrics = {
+  basis: PnlBasis;
+  currency: string;
+  window: number;
+  unit: RollingWindowUnit;
+  points: RollingPoint[];
+};
+
+export type PositionSizeRequest = z.infer<typeof positionSizeRequestSchema>;
+
+export const challengeRules = ["profitTarget", "dailyLoss", "maxDrawdown", "minTradingDays", "deadline"] as const;
+export type ChallengeRule = typeof challengeRules[number];
+
+export type ChallengeRuleResult = {
+  rule: ChallengeRule;
+  status: "met" | "pending" | "breached";
+  value: number; // profit, worst daily loss, drawdown, trading days or days elapsed
+  limit: number;
+  remaining: number | null; // room before a breach, or still to go for targets
+  message: string;
+};
+
+export type ChallengeStatus = {
+  challengeId: number;
+  status: "active" | "passed" | "failed";
+  decidedOn: string | null; // date the challenge was passed or failed
+  currency: string;
+  balance: number;
+  pnl: number;
+  tradingDays: number;
+  rules: ChallengeRuleResult[];
+};
+
+export const dailyLimitKinds = ["loss", "trades", "consecutiveLosses"] as const;
+export type DailyLimitKind = typeof dailyLimitKinds[number];
+
+export type DailyLimitBreach = {
+  kind: DailyLimitKind;
+  limit: number;
+  value: number;
+  message: string;
+};
+
+export type DailyLimitStatus = {
+  date: string;
+  currency: string;
+  mode: "warn" | "block";
+  locked: boolean; // any limit breached; further trades need an override in block mode
+  pnl: number; // net, in base currency
+  trades: number;
+  consecutiveLosses: number; // losing trades at the end of the day
+  breaches: DailyLimitBreach[];
+};
+
+export type PositionSizeResult = {
+  symbol: string;
+  unit: "lots" | "contracts" | "shares" | "units";
+  quantity: number; // rounded down to quantityStep so the risk limit is never exceeded
+  quantityStep: number;
+  accountBalance: number;
+  balanceSource: "request" | "risk-metrics" | "account-settings";
+  currency: string; // base currency of the balance and risk amounts
+  quoteCurrency: string; // currency of the instrument's point value
+  riskAmount: number; // balance x risk percent
+  actualRisk: number; // risk at the rounded quantity
+  pointValue: number;
+  riskPerUnit: number; // in quote currency, per unit of quantity
+};
+
+export type RBucket = {
+  label: string; // e.g. "1R to 2R"
+  from: number | null; // inclusive lower bound in R, null when open-ended
+  to: number | null; // exclusive upper bound in R, null when open-ended
+  count: number;
+};
+
+export type HoldingTimeBucket = {
+  label: string; // e.g. "15m to 1h"
+  fromMinutes: number; // inclusive
+  toMinutes: number | null; // exclusive, null when open-ended
+  trades: number;
+  pnl: number;
+  winRate: number;
+};
+
+export type HourOfDayStats = {
+  hour: number; // 0-23 in the requested timezone, by entry time
+  trades: number;
+  pnl: number;
+  winRate: number;
+};
+
+export type TimingAnalytics = {
+  basis: PnlBasis;
+  currency: string;
+  timezone: string;
+  tradesWithTimes: number; // trades with an entry time
+  avgHoldingMinutes: number | null;
+  medianHoldingMinutes: number | null;
+  holdingTime: HoldingTimeBucket[]; // trades with both entry and exit times
+  byHour: HourOfDayStats[];
+};
+
+export type EquityPoint = {
+  date: string;
+  tradeId: number | null; // null for the per-day series
+  pnl: number;
+  equity: number; // starting balance plus cumulative P&L
+  peak: number; // highest equity so far
+  drawdown: number; // peak - equity, zero at a new high
+  drawdownPercent: number | null; // drawdown as a percent of peak, when peak is positive
+};
+
+export type EquityCurve = {
+  basis: PnlBasis;
+  currency: string;
+  startingBalance: number;
+  trades: EquityPoint[];
+  days: EquityPoint[];
+  maxDrawdown: number;
+  maxDrawdownPercent: number | null;
+  currentDrawdown: number;
+  // Longest stretch spent below a previous peak, up to recovery or the last trade
+  longestDrawdown: {
+    days: number;
+    trades: number;
+    from: string | null;
+    to: string | null;
+    recovered: boolean;
+  };
+};
+
+export type CsvImportPreview = {
+  headers: string[];
+  rows: {
+    rowNumber: number;
+    trade: InsertTradeReview | null;
+    errors: string[];
+  }[];
+  validCount: number;
+  errorCount: number;
+};
+
+export type FxRateImportResult = {
+  imported: number;
+  errors: string[];
+};
@@ -0,0 +1,167 @@
+// Pure trade calculations shared by the server (which persists derived values)
+// and the client (which previews them while a trade is being entered).
+
+export interface ExecutionLike {
+  executedAt: Date | string;
+  side: string; // "buy" or "sell"
+  price: string;
+  quantity: string;
+  fees?: string | null;
+}
+
+export interface ExecutionSummary {
+  date: string;
+  entryTime: Date;
+  exitTime: Date | null; // last exit fill, once the position is fully closed
+  side: "long" | "short";
+  entryPrice: string;
+  exitPrice: string | null;
+  quantity: string;
+  fees: string; // total of the fills' fees; a trade's commission is left as typed
+  pnl: string | null;
+}
+
+export interface PriceFields {
+  side: string;
+  entryPrice: string;
+  exitPrice?: string | null;
+  quantity: string;
+}
+
+export function toNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === "") return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function formatDecimal(value: number, digits = 5): string {
+  return String(parseFloat(value.toFixed(digits)));
+}
+
+export interface CostFields {
+  pnl: string | null;
+  commission?: string | null;
+  swap?: string | null;
+  fees?: string | null;
+}
+
+// Net P&L: gross less commission and fees (stored as positive costs) plus swap (signed)
+export function getNetPnl(trade: CostFields): number | null {
+  const gross = toNumber(trade.pnl);
+  if (gross === null) return null;
+  return gross - (toNumber(trade.commission) || 0) - (toNumber(trade.fees) || 0) + (toNumber(trade.swap) || 0);
+}
+
+// Gross P&L in the instrument's quote currency. pointValue is what a one unit
+// price move is worth per unit of quantity: the contract size for forex lots,
+// the multiplier for futures, 1 for shares.
+export function computeGrossPnl(trade: PriceFields, pointValue = 1): number | null {
+  const entry = toNumber(trade.entryPrice);
+  const exit = toNumber(trade.exitPrice);
+  const quantity = toNumber(trade.quantity);
+  if (entry === null || exit === null || quantity === null) return null;
+
+  const direction = trade.side === "short" ? -1 : 1;
+  return (exit - entry) * quantity * direction * pointValue;
+}
+
+export interface PlanFields {
+  side: string;
+  entryPrice: string;
+  quantity?: string;
+  plannedStop?: string | null;
+  plannedTarget?: string | null;
+}
+
+// Money at risk if the planned stop is hit: the entry-to-stop distance times size and point value
+export function computePlannedRisk(trade: PlanFields, pointValue = 1): number | null {
+  const entry = toNumber(trade.entryPrice);
+  const stop = toNumber(trade.plannedStop);
+  const quantity = toNumber(trade.quantity);
+  if (entry === null || stop === null || quantity === null) return null;
+
+  const risk = Math.abs(entry - stop) * quantity * pointValue;
+  return risk > 0 ? risk : null;
+}
+
+// Largest quantity, in multiples of step, whose entry-to-stop loss stays
+// within riskAmount. riskAmount and pointValue must be in the same currency.
+export function computePositionSize(
+  riskAmount: number,
+  entryPrice: number,
+  stopPrice: number,
+  pointValue: number,
+  step: number,
+): { quantity: number; riskPerUnit: number } | null {
+  const riskPerUnit = Math.abs(entryPrice - stopPrice) * pointValue;
+  if (riskPerUnit <= 0 || riskAmount <= 0) return null;
+
+  // The epsilon keeps 0.3 / 0.1 from flooring to 2
+  const steps = Math.floor(riskAmount / riskPerUnit / step + 1e-9);
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return { quantity: parseFloat((steps * step).toFixed(decimals)), riskPerUnit };
+}
+
+// Planned reward-to-risk, e.g. 2 for a target twice as far from entry as the
+// stop. Null unless the stop and target sit on the correct sides of entry.
+export function computeRewardRisk(trade: PlanFields): number | null {
+  const entry = toNumber(trade.entryPrice);
+  const stop = toNumber(trade.plannedStop);
+  const target = toNumber(trade.plannedTarget);
+  if (entry === null || stop === null || target === null) return null;
+
+  const direction = trade.side === "short" ? -1 : 1;
+  const risk = (entry - stop) * direction;
+  const reward = (target - entry) * direction;
+  if (risk <= 0 || reward <= 0) return null;
+  return reward / risk;
+}
+
+function weightedAverage(executions: ExecutionLike[]): number {
+  const quantity = executions.reduce((sum, e) => sum + (toNumber(e.quantity) || 0), 0);
+  if (quantity === 0) return 0;
+  return executions.reduce((sum, e) => sum + (toNumber(e.price) || 0) * (toNumber(e.quantity) || 0), 0) / quantity;
+}
+
+// Derives the parent trade's averages, size and realized P&L from its fills.
+// Fills on the opening side scale in, fills on the other side scale out; the
+// opening side is the trade's side when known, else the first fill's side.
+export function summarizeExecutions(executions: ExecutionLike[], side?: string, pointValue = 1): ExecutionSummary | null {
+  if (executions.length === 0) return null;
+
+  const sorted = [...executions].sort(
+    (a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime()
+  );
+  const direction = side === "long" || side === "short"
+    ? side
+    : sorted[0].side === "buy" ? "long" : "short";
+  const openingSide = direction === "long" ? "buy" : "sell";
+
+  const entries = sorted.filter(e => e.side === openingSide);
+  const exits = sorted.filter(e => e.side !== openingSide);
+  if (entries.length === 0) return null;
+
+  const avgEntry = weightedAverage(entries);
+  const avgExit = exits.length > 0 ? weightedAverage(exits) : null;
+  const entryQuantity = entries.reduce((sum, e) => sum + (toNumber(e.quantity) || 0), 0);
+  const exitQuantity = exits.reduce((sum, e) => sum + (toNumber(e.quantity) || 0), 0);
+  const fees = sorted.reduce((sum, e) => sum + (toNumber(e.fees) || 0), 0);
+
+  // Realized P&L only counts the quantity that has actually been closed
+  const closedQuantity = Math.min(entryQuantity, exitQuantity);
+  const pnl = avgExit !== null
+    ? (avgExit - avgEntry) * closedQuantity * (direction === "long" ? 1 : -1) * pointValue
+    : null;
+
+  return {
+    date: new Date(entries[0].executedAt).toISOString().split('T')[0],
+    entryTime: new Date(entries[0].executedAt),
+    exitTime: exits.length > 0 && exitQuantity >= entryQuantity ? new Date(exits[exits.length - 1].executedAt) : null,
+    side: direction,
+    entryPrice: formatDecimal(avgEntry),
+    exitPrice: avgExit !== null ? formatDecimal(avgExit) : null,
+    quantity: formatDecimal(entryQuantity),
+    fees: formatDecimal(fees, 2),
+    pnl: pnl !== null ? formatDecimal(pnl, 2) : null,
+  };
+}